@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { useToast } from "@/hooks/use-toast";
+import { getCurrentUser, getUserStorage } from '@/utils/storageUtils';
+import {
+  ActivityAction,
+  ActivityEntry,
+  ACTIVITY_ACTIONS,
+  ACTIVITY_RETENTION_DAYS,
+  MAX_ACTIVITY_ENTRIES,
+  getActivity,
+  clearActivity
+} from '@/utils/activityUtils';
+import { DateRange, DATE_RANGE_DAYS } from '@/utils/browseUtils';
+import { ROOT_PATH, formatLocation } from '@/utils/pathUtils';
+import { Clock, Upload, Download, Trash2, RotateCcw, XCircle, Pencil, FolderInput, Share2 } from 'lucide-react';
+
+const ACTION_LABELS: Record<ActivityAction, string> = {
+  upload: 'Uploaded',
+  download: 'Downloaded',
+  trash: 'Moved to trash',
+  restore: 'Restored',
+  delete: 'Deleted permanently',
+  rename: 'Renamed',
+  move: 'Moved',
+  share: 'Shared',
+};
+
+const ACTION_ICONS: Record<ActivityAction, typeof Upload> = {
+  upload: Upload,
+  download: Download,
+  trash: Trash2,
+  restore: RotateCcw,
+  delete: XCircle,
+  rename: Pencil,
+  move: FolderInput,
+  share: Share2,
+};
+
+const RANGE_LABELS: Record<DateRange, string> = {
+  any: 'All time',
+  day: 'Today',
+  week: 'Past week',
+  month: 'Past month',
+  year: 'Past year',
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// What changed, beyond the action and the name
+const describeDetail = (entry: ActivityEntry): string | undefined => {
+  switch (entry.action) {
+    case 'rename':
+      return entry.detail && `to ${entry.detail}`;
+    case 'move':
+      return entry.detail && `to ${formatLocation(entry.detail)}`;
+    default:
+      return entry.detail;
+  }
+};
+
+const ActivityTimeline = () => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const [activity, setActivity] = useState<ActivityEntry[] | null>(null);
+  const [action, setAction] = useState<ActivityAction | 'all'>('all');
+  const [range, setRange] = useState<DateRange>('any');
+  const [query, setQuery] = useState('');
+
+  const loadActivity = useCallback(async () => {
+    const user = getCurrentUser();
+    if (user) {
+      setActivity(getActivity(await getUserStorage(backend, user)));
+    }
+  }, [backend]);
+
+  useEffect(() => {
+    loadActivity();
+  }, [loadActivity]);
+
+  const handleClear = async () => {
+    const user = getCurrentUser();
+    if (!user) return;
+
+    try {
+      await clearActivity(backend, user);
+      await loadActivity();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Activity history could not be cleared",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!activity) return <div>Loading activity...</div>;
+
+  const now = Date.now();
+  const normalizedQuery = query.trim().toLowerCase();
+  const entries = activity.filter(entry =>
+    (action === 'all' || entry.action === action) &&
+    (range === 'any' || entry.timestamp >= now - DATE_RANGE_DAYS[range] * DAY) &&
+    (!normalizedQuery || entry.name.toLowerCase().includes(normalizedQuery))
+  );
+
+  // Entries are newest first, so each day's group is complete once the date changes
+  const days: { date: string; entries: ActivityEntry[] }[] = [];
+  for (const entry of entries) {
+    const date = new Date(entry.timestamp).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+    if (days.length === 0 || days[days.length - 1].date !== date) {
+      days.push({ date, entries: [] });
+    }
+    days[days.length - 1].entries.push(entry);
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Activity
+        </CardTitle>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={activity.length === 0}>
+              Clear History
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Clear activity history?</AlertDialogTitle>
+              <AlertDialogDescription>
+                All {activity.length} recorded {activity.length === 1 ? 'entry' : 'entries'} are removed. Your files are not affected.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleClear}>Clear</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="search"
+            placeholder="Filter by name..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="sm:flex-1"
+          />
+          <Select value={action} onValueChange={(value) => setAction(value as ActivityAction | 'all')}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All activity</SelectItem>
+              {ACTIVITY_ACTIONS.map(value => (
+                <SelectItem key={value} value={value}>{ACTION_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={range} onValueChange={(value) => setRange(value as DateRange)}>
+            <SelectTrigger className="sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RANGE_LABELS) as DateRange[]).map(value => (
+                <SelectItem key={value} value={value}>{RANGE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {days.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            {activity.length === 0 ? 'No activity recorded yet' : 'No activity matches these filters'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {days.map(({ date, entries: dayEntries }) => (
+              <div key={date}>
+                <h4 className="text-xs font-medium text-muted-foreground mb-2">{date}</h4>
+                <ol className="border-l pl-4 space-y-3">
+                  {dayEntries.map(entry => {
+                    const Icon = ACTION_ICONS[entry.action];
+                    const detail = describeDetail(entry);
+                    return (
+                      <li key={entry.id} className="relative text-sm">
+                        <span className="absolute -left-[1.4rem] top-0.5 flex h-5 w-5 items-center justify-center rounded-full bg-background border">
+                          <Icon className="h-3 w-3 text-primary" />
+                        </span>
+                        <p className="truncate">
+                          {ACTION_LABELS[entry.action]}{entry.isFolder && ' folder'}{' '}
+                          <span className="font-medium" title={entry.name}>{entry.name}</span>
+                          {detail && <span className="text-muted-foreground"> {detail}</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {new Date(entry.timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                          {' · '}
+                          {formatLocation(entry.path)}
+                        </p>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          The last {MAX_ACTIVITY_ENTRIES} actions from the past {ACTIVITY_RETENTION_DAYS} days are kept.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActivityTimeline;
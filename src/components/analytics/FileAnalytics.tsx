@@ -1,21 +1,28 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
+import { useStorageBackend } from "@/hooks/use-storage-backend";
 import { getCurrentUser, getUserStorage, formatFileSize } from '@/utils/storageUtils';
-import { FileText, HardDrive, Download, TrendingUp } from 'lucide-react';
+import { reconcileStorage, ReconciliationReport } from '@/utils/reconcileUtils';
+import { useToast } from "@/hooks/use-toast";
+import { FileText, HardDrive, Download, TrendingUp, ShieldCheck } from 'lucide-react';
 
 const FileAnalytics = () => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [isReconciling, setIsReconciling] = useState(false);
   const [storage, setStorage] = useState(null);
   const [chartData, setChartData] = useState([]);
   const [typeData, setTypeData] = useState([]);
 
-  useEffect(() => {
+  const loadAnalytics = useCallback(async () => {
     const user = getCurrentUser();
     if (user) {
-      const userStorage = getUserStorage(user);
+      const userStorage = await getUserStorage(backend, user);
       setStorage(userStorage);
 
       // Prepare chart data by file size
@@ -42,7 +49,38 @@ const FileAnalytics = () => {
       }));
       setTypeData(typeChartData);
     }
-  }, []);
+  }, [backend]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const runReconciliation = async (cleanUp: boolean) => {
+    const user = getCurrentUser();
+    if (!user) return;
+
+    setIsReconciling(true);
+    try {
+      const result = await reconcileStorage(backend, user, { cleanUp });
+      setReport(result);
+      await loadAnalytics();
+
+      if (cleanUp) {
+        toast({
+          title: "Storage Cleaned Up",
+          description: `Removed ${result.orphanedBlobs.length} orphaned blob${result.orphanedBlobs.length !== 1 ? 's' : ''} and ${result.missingFiles.length} broken entr${result.missingFiles.length !== 1 ? 'ies' : 'y'}`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Storage check failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReconciling(false);
+    }
+  };
 
   const chartConfig = {
     size: {
@@ -99,7 +137,7 @@ const FileAnalytics = () => {
                 <p className="text-sm text-muted-foreground">Avg File Size</p>
                 <p className="text-2xl font-bold">
                   {storage.files.length > 0 
-                    ? formatFileSize(storage.usedSpace / storage.files.length)
+                    ? formatFileSize(storage.files.reduce((total, file) => total + file.size, 0) / storage.files.length)
                     : '0 B'
                   }
                 </p>
@@ -110,6 +148,63 @@ const FileAnalytics = () => {
         </Card>
       </div>
 
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Storage Health
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={isReconciling} onClick={() => runReconciliation(false)}>
+              Check Storage
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={isReconciling || !report || (report.orphanedBlobs.length === 0 && report.missingFiles.length === 0)}
+              onClick={() => runReconciliation(true)}
+            >
+              Clean Up
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          {!report ? (
+            <p className="text-muted-foreground">
+              Recompute used space from the stored blobs and look for orphaned or missing data.
+            </p>
+          ) : (
+            <>
+              <p>
+                Used space: {formatFileSize(report.usedSpace)}
+                {report.previousUsedSpace !== report.usedSpace && (
+                  <span className="text-muted-foreground"> (was {formatFileSize(report.previousUsedSpace)})</span>
+                )}
+              </p>
+              <div>
+                <p className="font-medium">Orphaned blobs: {report.orphanedBlobs.length}</p>
+                {report.orphanedBlobs.map(blob => (
+                  <p key={blob.id} className="text-muted-foreground truncate">
+                    {blob.id} ({formatFileSize(blob.size)})
+                  </p>
+                ))}
+              </div>
+              <div>
+                <p className="font-medium">Files with missing data: {report.missingFiles.length}</p>
+                {report.missingFiles.map(file => (
+                  <p key={file.id} className="text-muted-foreground truncate">
+                    {file.name} ({formatFileSize(file.size)})
+                  </p>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {report.cleanedUp ? 'Cleaned up' : 'Checked'} at {new Date(report.checkedAt).toLocaleString()}
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
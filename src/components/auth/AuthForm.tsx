@@ -7,7 +7,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
-import { loginUser, registerUser } from '@/utils/storageUtils';
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { loginUser, logoutUser, registerUser, prepareVault } from '@/utils/storageUtils';
+import type { ReconciliationReport } from '@/utils/reconcileUtils';
+import { describeStorageError } from '@/utils/storageErrors';
 
 interface AuthFormProps {
   onSuccess: () => void;
@@ -15,12 +18,13 @@ interface AuthFormProps {
 
 const AuthForm = ({ onSuccess }: AuthFormProps) => {
   const { toast } = useToast();
+  const backend = useStorageBackend();
   const [activeTab, setActiveTab] = useState("login");
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!username || !password) {
@@ -32,12 +36,31 @@ const AuthForm = ({ onSuccess }: AuthFormProps) => {
       return;
     }
 
-    const user = loginUser(username, password);
+    const user = await loginUser(username, password);
     
     if (user) {
+      let report: ReconciliationReport;
+      try {
+        // Migrate and encrypt any files saved by older versions
+        report = await prepareVault(backend, user);
+      } catch (error) {
+        // A half-prepared vault is not usable, so the login is undone
+        logoutUser();
+        toast({
+          title: "Error",
+          description: describeStorageError(error),
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      const issueCount = report.orphanedBlobs.length + report.missingFiles.length;
+      
       toast({
         title: "Success",
-        description: "You have successfully logged in!",
+        description: issueCount > 0
+          ? `You have successfully logged in! Found ${issueCount} storage inconsistenc${issueCount !== 1 ? 'ies' : 'y'}; review them under Analytics.`
+          : "You have successfully logged in!",
       });
       onSuccess();
     } else {
@@ -49,7 +72,7 @@ const AuthForm = ({ onSuccess }: AuthFormProps) => {
     }
   };
 
-  const handleRegister = (e: React.FormEvent) => {
+  const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!username || !password || !confirmPassword) {
@@ -70,7 +93,7 @@ const AuthForm = ({ onSuccess }: AuthFormProps) => {
       return;
     }
 
-    const user = registerUser(username, password);
+    const user = await registerUser(username, password);
     
     if (user) {
       toast({
@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Separator } from "@/components/ui/separator";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { changePassword, getCurrentUser, rotateStorageKey } from '@/utils/storageUtils';
+import { KeyRound, RefreshCw } from 'lucide-react';
+
+const ChangePasswordDialog = () => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const handleRotateKey = async () => {
+    const user = getCurrentUser();
+
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "Authentication required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const rotatedUser = await rotateStorageKey(backend, user);
+
+      if (rotatedUser) {
+        toast({
+          title: "Success",
+          description: "Your files have been moved under a new storage key",
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: "Account not found",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to rotate storage key; your files remain under the old key",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetForm = () => {
+    setCurrentPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const user = getCurrentUser();
+
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "Authentication required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!currentPassword || !newPassword) {
+      toast({
+        title: "Error",
+        description: "Please fill in all fields",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Error",
+        description: "Passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const success = await changePassword(backend, user, currentPassword, newPassword);
+
+      if (success) {
+        toast({
+          title: "Success",
+          description: "Your password has been changed",
+        });
+        resetForm();
+        setOpen(false);
+      } else {
+        toast({
+          title: "Error",
+          description: "Current password is incorrect",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to re-encrypt your file keys",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) resetForm(); }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Security">
+          <KeyRound className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Security</DialogTitle>
+          <DialogDescription>
+            Your files stay encrypted; only their keys are re-wrapped with the new password.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current Password</Label>
+            <Input
+              id="current-password"
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New Password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-new-password">Confirm New Password</Label>
+            <Input
+              id="confirm-new-password"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Change Password'}
+            </Button>
+          </DialogFooter>
+        </form>
+        <Separator />
+        <div className="space-y-2">
+          <h4 className="font-medium">Storage Key</h4>
+          <p className="text-sm text-muted-foreground">
+            Re-namespace all of your stored files under a newly generated storage key.
+          </p>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={isSaving} className="flex items-center gap-2">
+                <RefreshCw className="h-4 w-4" />
+                Rotate Storage Key
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Rotate storage key?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every file is copied to a new namespace and the old one is removed. Keep this tab open until it finishes.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRotateKey}>Rotate</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChangePasswordDialog;
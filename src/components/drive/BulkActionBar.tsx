@@ -0,0 +1,91 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { formatFileSize } from '@/utils/storageUtils';
+import { FolderInput, FileArchive, Tag, Trash2, X } from 'lucide-react';
+
+// A running batch operation, e.g. decrypting files into a ZIP
+export interface BatchProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  selectedSize: number; // in bytes
+  totalCount: number; // files that select-all would select
+  progress: BatchProgress | null;
+  onSelectAll: (selected: boolean) => void;
+  onDelete: () => void;
+  onMove: () => void;
+  onDownloadZip: () => void;
+  onTag: () => void;
+}
+
+const BulkActionBar = ({
+  selectedCount,
+  selectedSize,
+  totalCount,
+  progress,
+  onSelectAll,
+  onDelete,
+  onMove,
+  onDownloadZip,
+  onTag,
+}: BulkActionBarProps) => {
+  const allSelected = selectedCount > 0 && selectedCount === totalCount;
+  const isBusy = progress !== null;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-4 min-h-10">
+      <div className="flex items-center gap-3">
+        <Checkbox
+          id="select-all-files"
+          checked={allSelected ? true : selectedCount > 0 ? 'indeterminate' : false}
+          onCheckedChange={() => onSelectAll(!allSelected)}
+          disabled={totalCount === 0 || isBusy}
+          aria-label="Select all files"
+        />
+        <label htmlFor="select-all-files" className="text-sm text-muted-foreground cursor-pointer">
+          {selectedCount > 0
+            ? `${selectedCount} of ${totalCount} selected · ${formatFileSize(selectedSize)}`
+            : `Select all ${totalCount} ${totalCount === 1 ? 'file' : 'files'}`}
+        </label>
+      </div>
+
+      {progress ? (
+        <div className="flex items-center gap-3 w-full sm:w-72">
+          <span className="text-sm text-muted-foreground whitespace-nowrap">
+            {progress.label} {progress.done}/{progress.total}
+          </span>
+          <Progress value={(progress.done / Math.max(progress.total, 1)) * 100} className="h-2" />
+        </div>
+      ) : selectedCount > 0 && (
+        <div className="flex flex-wrap gap-1">
+          <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={onDownloadZip}>
+            <FileArchive className="h-4 w-4" />
+            Download ZIP
+          </Button>
+          <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={onMove}>
+            <FolderInput className="h-4 w-4" />
+            Move
+          </Button>
+          <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={onTag}>
+            <Tag className="h-4 w-4" />
+            Tag
+          </Button>
+          <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={onDelete}>
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </Button>
+          <Button variant="ghost" size="sm" title="Clear selection" onClick={() => onSelectAll(false)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
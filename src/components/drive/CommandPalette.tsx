@@ -0,0 +1,100 @@
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { FileMetadata, getFileIcon } from '@/utils/storageUtils';
+import { ROOT_PATH, normalizePath, getFolderName, formatLocation } from '@/utils/pathUtils';
+import { Folder, LucideIcon } from 'lucide-react';
+
+export interface PaletteAction {
+  id: string;
+  group: string; // heading the action is listed under
+  label: string;
+  icon: LucideIcon;
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  actions: PaletteAction[];
+  folders: string[];
+  files: FileMetadata[];
+  onOpenFolder: (path: string) => void;
+  onOpenFile: (file: FileMetadata) => void;
+}
+
+// Ctrl/Cmd+K palette: type to jump to any folder or file, or to run an action
+const CommandPalette = ({ open, onOpenChange, actions, folders, files, onOpenFolder, onOpenFile }: CommandPaletteProps) => {
+  const groups = Array.from(new Set(actions.map(action => action.group)));
+
+  // Close first, so whatever the command opens gets the focus
+  const select = (run: () => void) => {
+    onOpenChange(false);
+    run();
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Search files, folders and actions..." />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+        {groups.map(group => (
+          <CommandGroup key={group} heading={group}>
+            {actions.filter(action => action.group === group).map(action => (
+              <CommandItem key={action.id} value={`${group} ${action.label}`} onSelect={() => select(action.run)}>
+                <action.icon className="mr-2 h-4 w-4" />
+                {action.label}
+                {action.shortcut && <CommandShortcut>{action.shortcut}</CommandShortcut>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+        {folders.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Folders">
+              {folders.map(path => (
+                <CommandItem key={path} value={`folder ${path}`} onSelect={() => select(() => onOpenFolder(path))}>
+                  <Folder className="mr-2 h-4 w-4 text-primary" />
+                  <span className="truncate">{getFolderName(path)}</span>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">{formatLocation(path)}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+        {files.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Files">
+              {files.map(file => (
+                <CommandItem
+                  key={file.id}
+                  // Names are unique within a folder, so name and location identify the file
+                  value={`${file.name} ${formatLocation(normalizePath(file.path))}`}
+                  onSelect={() => select(() => onOpenFile(file))}
+                >
+                  <span className="mr-2 text-base leading-none">{getFileIcon(file.type)}</span>
+                  <span className="truncate">{file.name}</span>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">
+                    {formatLocation(normalizePath(file.path))}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
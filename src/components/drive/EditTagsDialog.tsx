@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { FileMetadata, User, getCurrentUser } from '@/utils/storageUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import { MAX_TAG_LENGTH, normalizeTag, addTagToFiles, removeTagFromFiles } from '@/utils/tagUtils';
+import { Plus, X } from 'lucide-react';
+
+interface EditTagsDialogProps {
+  file: FileMetadata | null; // the file being tagged, or null when closed
+  knownTags: string[]; // tags used elsewhere, offered as suggestions
+  onOpenChange: (open: boolean) => void;
+  onStorageChanged: () => void;
+}
+
+const EditTagsDialog = ({ file, knownTags, onOpenChange, onStorageChanged }: EditTagsDialogProps) => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const [tag, setTag] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const normalized = normalizeTag(tag);
+  const error = tag && !normalized
+    ? `Tags can use letters, numbers, "-" and "_", up to ${MAX_TAG_LENGTH} characters`
+    : null;
+  const tags = file?.tags ?? [];
+  const suggestions = knownTags
+    .filter(known => !tags.includes(known) && known.startsWith(normalized ?? ''))
+    .slice(0, 8);
+
+  useEffect(() => {
+    setTag('');
+  }, [file?.id]);
+
+  const runTagAction = async (action: (user: User, fileIds: string[]) => Promise<unknown>) => {
+    const user = getCurrentUser();
+    
+    if (!user || !file) {
+      return;
+    }
+    
+    setIsSaving(true);
+    try {
+      await action(user, [file.id]);
+      onStorageChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+    }
+    setIsSaving(false);
+  };
+
+  const handleAdd = (value: string) => {
+    setTag('');
+    runTagAction((user, fileIds) => addTagToFiles(backend, user, fileIds, value));
+  };
+
+  const handleRemove = (value: string) => {
+    runTagAction((user, fileIds) => removeTagFromFiles(backend, user, fileIds, value));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (normalized && !tags.includes(normalized)) {
+      handleAdd(normalized);
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Tags</DialogTitle>
+          <DialogDescription className="break-all">{file?.name}</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap gap-1 min-h-6">
+          {tags.length === 0 && <p className="text-sm text-muted-foreground">No tags yet</p>}
+          {tags.map(value => (
+            <Badge key={value} variant="secondary" className="flex items-center gap-1 font-normal">
+              {value}
+              <button
+                type="button"
+                className="rounded-sm opacity-70 hover:opacity-100 disabled:opacity-30"
+                aria-label={`Remove tag ${value}`}
+                disabled={isSaving}
+                onClick={() => handleRemove(value)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Add a tag"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              autoFocus
+            />
+            <Button type="submit" size="icon" title="Add tag" disabled={!normalized || isSaving || tags.includes(normalized)}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-muted-foreground mr-1">Suggestions</span>
+            {suggestions.map(value => (
+              <Badge
+                key={value}
+                variant="outline"
+                className="cursor-pointer font-normal hover:bg-accent"
+                onClick={() => !isSaving && handleAdd(value)}
+              >
+                {value}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditTagsDialog;
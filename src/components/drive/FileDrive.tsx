@@ -1,6 +1,7 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef, Fragment } from 'react';
 import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { 
@@ -22,13 +23,40 @@ import {
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import FileUploader from './FileUploader';
 import FileList from './FileList';
 import StorageUsage from './StorageUsage';
+import FolderNameDialog from './FolderNameDialog';
+import TrashView from './TrashView';
+import SharedLinksView from './SharedLinksView';
+import SharedWithMeView from './SharedWithMeView';
+import FileFilterBar from './FileFilterBar';
+import TagManagerDialog from './TagManagerDialog';
+import CommandPalette, { PaletteAction } from './CommandPalette';
+import KeyboardShortcutsDialog from './KeyboardShortcutsDialog';
 import NetworkMonitor from '../network/NetworkMonitor';
 import FileAnalytics from '../analytics/FileAnalytics';
+import ActivityTimeline from '../analytics/ActivityTimeline';
 import PacketMonitor from '../monitoring/PacketMonitor';
+import ChangePasswordDialog from '../auth/ChangePasswordDialog';
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { useFileMove, useFileDropTarget } from "@/hooks/use-file-move";
 import { 
   getCurrentUser, 
   getUserStorage, 
@@ -36,38 +64,310 @@ import {
   FileMetadata,
   logoutUser
 } from '@/utils/storageUtils';
-import { GridIcon, List, LogOut, Search, Activity, BarChart3, Monitor } from 'lucide-react';
+import { createFolder } from '@/utils/folderUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import { backfillThumbnails } from '@/utils/thumbnailUtils';
+import { syncUserShares } from '@/utils/userShareUtils';
+import { SearchHit, SnippetPart, searchFiles, backfillSearchIndex } from '@/utils/searchUtils';
+import { parseTagQuery, hasAllTags, getTagUsage } from '@/utils/tagUtils';
+import { getRecentFiles } from '@/utils/activityUtils';
+import {
+  BrowsePreferences,
+  SortField,
+  DEFAULT_BROWSE_PREFERENCES,
+  getBrowsePreferences,
+  setBrowsePreferences,
+  matchesFilters,
+  sortFiles,
+  sortFolders
+} from '@/utils/browseUtils';
+import { ROOT_PATH, normalizePath, isWithinFolder, getChildFolders, getFolderName, getPathSegments } from '@/utils/pathUtils';
+import { GridIcon, List, LogOut, Search, Activity, BarChart3, Monitor, FolderPlus, HardDrive, Trash2, Share2, Users, Star, Tags, Clock, Keyboard } from 'lucide-react';
+
+type SearchScope = 'folder' | 'subfolders';
+type DriveSection = 'drive' | 'recent' | 'starred' | 'shared' | 'received' | 'trash';
+
+interface FolderBreadcrumbLinkProps {
+  label: string;
+  onOpen: () => void;
+  onDropFiles: (fileIds: string[]) => void;
+}
+
+// A parent folder in the breadcrumb, which files can also be dragged onto to move them up
+const FolderBreadcrumbLink = ({ label, onOpen, onDropFiles }: FolderBreadcrumbLinkProps) => {
+  const { isOver, dropTargetProps } = useFileDropTarget(onDropFiles);
+  
+  return (
+    <BreadcrumbLink
+      className={cn("cursor-pointer rounded px-1 -mx-1", isOver && "bg-accent text-foreground ring-2 ring-primary")}
+      onClick={onOpen}
+      {...dropTargetProps}
+    >
+      {label}
+    </BreadcrumbLink>
+  );
+};
 
 const FileDrive = () => {
   const { toast } = useToast();
+  const backend = useStorageBackend();
   const [storage, setStorage] = useState<UserStorage | null>(null);
   const [filteredFiles, setFilteredFiles] = useState<FileMetadata[]>([]);
+  const [filteredFolders, setFilteredFolders] = useState<string[]>([]);
+  const [searchHits, setSearchHits] = useState<SearchHit[] | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchScope, setSearchScope] = useState<SearchScope>('folder');
+  const [currentPath, setCurrentPath] = useState(ROOT_PATH);
+  const [isCreatingFolder, setIsCreatingFolder] = useState(false);
   const [view, setView] = useState<'grid' | 'list'>('grid');
+  const [section, setSection] = useState<DriveSection>('drive');
+  const [isManagingTags, setIsManagingTags] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isShowingShortcuts, setIsShowingShortcuts] = useState(false);
+  // File picked in the command palette, previewed once its folder is listed
+  const [revealFileId, setRevealFileId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const hasLoadedRef = useRef(false);
+  const [preferences, setPreferences] = useState<BrowsePreferences>(() => {
+    const user = getCurrentUser();
+    return user ? getBrowsePreferences(user.username) : DEFAULT_BROWSE_PREFERENCES;
+  });
+  const isRecursiveSearch = searchScope === 'subfolders' && searchQuery !== '';
+  // "tag:name" terms filter by tag; the rest of the query is searched as usual
+  const queryText = parseTagQuery(searchQuery).text;
   
-  const refreshStorage = () => {
+  const refreshStorage = useCallback(async () => {
     const user = getCurrentUser();
     
-    if (user) {
-      const userStorage = getUserStorage(user);
+    if (!user) {
+      return;
+    }
+    
+    try {
+      // Recipients of shared folders need keys for anything added since the last sync
+      await syncUserShares(backend, user).catch(() => undefined);
+      const userStorage = await getUserStorage(backend, user);
+      hasLoadedRef.current = true;
       setStorage(userStorage);
-      setFilteredFiles(userStorage.files);
+      setLoadError(null);
+      
+      // The current folder may have been renamed, moved or deleted
+      setCurrentPath(path => path !== ROOT_PATH && !userStorage.folders.includes(path) ? ROOT_PATH : path);
+    } catch (error) {
+      // Until the drive has loaded once there is nothing to show, so the error replaces it
+      if (hasLoadedRef.current) {
+        toast({
+          title: "Error",
+          description: describeStorageError(error),
+          variant: "destructive",
+        });
+      } else {
+        setLoadError(describeStorageError(error));
+      }
     }
-  };
+  }, [backend, toast]);
+  
+  const moveFilesTo = useFileMove(refreshStorage);
   
   useEffect(() => {
     refreshStorage();
+    
+    // Files uploaded before thumbnails existed get theirs in the background
+    const user = getCurrentUser();
+    if (user) {
+      backfillThumbnails(backend, user)
+        .then(created => created > 0 && refreshStorage())
+        .catch(() => undefined);
+      // Likewise for the search index, so results can include their content
+      backfillSearchIndex(backend, user)
+        .then(indexed => indexed > 0 && refreshStorage())
+        .catch(() => undefined);
+    }
+  }, [backend, refreshStorage]);
+  
+  // Ctrl/Cmd+K opens the command palette from anywhere; "?" shows the shortcuts unless typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey) && !e.altKey) {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
+        return;
+      }
+      
+      const target = e.target as HTMLElement;
+      const isTyping = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if (e.key === '?' && !isTyping && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        e.preventDefault();
+        setIsShowingShortcuts(true);
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
   
+  // Content search runs against the encrypted index, so it is debounced while typing
+  useEffect(() => {
+    const user = getCurrentUser();
+    
+    if (!storage || !user || !queryText) {
+      setSearchHits(null);
+      return;
+    }
+    
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchFiles(backend, user, storage, queryText)
+        .then(hits => !cancelled && setSearchHits(hits))
+        .catch(() => undefined);
+    }, 200);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [queryText, storage, backend]);
+  
   useEffect(() => {
     if (storage) {
-      setFilteredFiles(
-        storage.files.filter(file => 
-          file.name.toLowerCase().includes(searchQuery.toLowerCase())
-        )
-      );
+      const query = queryText.toLowerCase();
+      const tags = parseTagQuery(searchQuery).tags;
+      const recentFiles = section === 'recent' ? getRecentFiles(storage) : [];
+      const recentIds = new Set(recentFiles.map(file => file.id));
+      // Recent and starred files are gathered from every folder
+      const inScope = (file: FileMetadata) => section === 'recent'
+        ? recentIds.has(file.id)
+        : section === 'starred'
+          ? file.starred === true
+          : isRecursiveSearch
+            ? isWithinFolder(normalizePath(file.path), currentPath)
+            : normalizePath(file.path) === currentPath;
+      const matches = (file: FileMetadata) => inScope(file) && hasAllTags(file, tags) && matchesFilters(file, preferences);
+      const nameMatches = (section === 'recent' ? recentFiles : storage.files)
+        .filter(file => matches(file) && file.name.toLowerCase().includes(query));
+      
+      // Search results keep their ranking and recent files their order; until search results
+      // arrive, names are matched directly
+      setFilteredFiles(searchHits
+        ? searchHits.map(hit => hit.file).filter(matches)
+        : section === 'recent'
+          ? nameMatches
+          : sortFiles(nameMatches, preferences.sortField, preferences.sortDirection));
+      // Folders have no tags, so a tag search only finds files
+      setFilteredFolders(section !== 'drive' || tags.length > 0 ? [] : sortFolders(
+        (isRecursiveSearch
+          ? storage.folders.filter(folder => folder !== currentPath && isWithinFolder(folder, currentPath))
+          : getChildFolders(storage.folders, currentPath)
+        ).filter(folder => getFolderName(folder).toLowerCase().includes(query)),
+        preferences.sortField,
+        preferences.sortDirection
+      ));
+    }
+  }, [searchQuery, queryText, searchHits, storage, currentPath, isRecursiveSearch, section, preferences]);
+  
+  const updatePreferences = (changes: Partial<BrowsePreferences>) => {
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    
+    const user = getCurrentUser();
+    if (user) {
+      setBrowsePreferences(user.username, next);
+    }
+  };
+  
+  // A column header sorts by that column, or flips the direction when it already does
+  const handleSort = (field: SortField) => {
+    if (field === preferences.sortField) {
+      updatePreferences({ sortDirection: preferences.sortDirection === 'asc' ? 'desc' : 'asc' });
+    } else {
+      // Largest and newest first are the useful starting points for those columns
+      updatePreferences({ sortField: field, sortDirection: field === 'size' || field === 'modified' ? 'desc' : 'asc' });
     }
-  }, [searchQuery, storage]);
+  };
+  
+  const handleCreateFolder = async (name: string) => {
+    const user = getCurrentUser();
+    
+    if (!user) {
+      return;
+    }
+    
+    let path: string | null;
+    try {
+      path = await createFolder(backend, user, currentPath, name);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (path) {
+      setIsCreatingFolder(false);
+      toast({
+        title: "Folder Created",
+        description: `${name} has been created`,
+      });
+      refreshStorage();
+    } else {
+      toast({
+        title: "Error",
+        description: "A folder with that name already exists",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const openFolder = (path: string) => {
+    setSection('drive');
+    setSearchQuery('');
+    setCurrentPath(path);
+  };
+  
+  const openFile = (file: FileMetadata) => {
+    openFolder(normalizePath(file.path));
+    
+    if (matchesFilters(file, preferences)) {
+      setRevealFileId(file.id);
+    } else {
+      toast({
+        title: "File Hidden by Filters",
+        description: `Clear the filters to see ${file.name} in its folder`,
+      });
+    }
+  };
+  
+  const paletteActions: PaletteAction[] = [
+    { id: 'go-drive', group: 'Go to', label: 'My Drive', icon: HardDrive, run: () => openFolder(ROOT_PATH) },
+    { id: 'go-recent', group: 'Go to', label: 'Recent', icon: Clock, run: () => setSection('recent') },
+    { id: 'go-starred', group: 'Go to', label: 'Starred', icon: Star, run: () => setSection('starred') },
+    { id: 'go-shared', group: 'Go to', label: 'Shared by me', icon: Share2, run: () => setSection('shared') },
+    { id: 'go-received', group: 'Go to', label: 'Shared with me', icon: Users, run: () => setSection('received') },
+    { id: 'go-trash', group: 'Go to', label: 'Trash', icon: Trash2, run: () => setSection('trash') },
+    {
+      id: 'new-folder',
+      group: 'Actions',
+      label: 'New folder',
+      icon: FolderPlus,
+      run: () => {
+        setSection('drive');
+        setIsCreatingFolder(true);
+      },
+    },
+    { id: 'manage-tags', group: 'Actions', label: 'Manage tags', icon: Tags, run: () => setIsManagingTags(true) },
+    {
+      id: 'toggle-view',
+      group: 'Actions',
+      label: view === 'grid' ? 'Switch to list view' : 'Switch to grid view',
+      icon: view === 'grid' ? List : GridIcon,
+      run: () => setView(view === 'grid' ? 'list' : 'grid'),
+    },
+    { id: 'shortcuts', group: 'Actions', label: 'Keyboard shortcuts', icon: Keyboard, shortcut: '?', run: () => setIsShowingShortcuts(true) },
+  ];
+  
+  const clearRevealFileId = useCallback(() => setRevealFileId(null), []);
   
   const handleLogout = () => {
     logoutUser();
@@ -75,9 +375,36 @@ const FileDrive = () => {
   };
   
   if (!storage) {
+    if (loadError) {
+      return (
+        <div className="flex flex-col items-center justify-center min-h-screen gap-4 p-4 text-center">
+          <p className="text-muted-foreground">{loadError}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleLogout}>Log Out</Button>
+            <Button
+              onClick={() => {
+                setLoadError(null);
+                refreshStorage();
+              }}
+            >
+              Try Again
+            </Button>
+          </div>
+        </div>
+      );
+    }
+    
     return <div>Loading...</div>;
   }
   
+  const knownTags = getTagUsage(storage).map(usage => usage.tag);
+  const snippets: Record<string, SnippetPart[]> = {};
+  for (const hit of searchHits ?? []) {
+    if (hit.snippet) {
+      snippets[hit.file.id] = hit.snippet;
+    }
+  }
+  
   return (
     <div className="container py-6 max-w-6xl">
       <header className="mb-6">
@@ -96,14 +423,18 @@ const FileDrive = () => {
                   <DialogTitle>File Analytics & Network Monitoring</DialogTitle>
                 </DialogHeader>
                 <Tabs defaultValue="analytics" className="w-full">
-                  <TabsList className="grid w-full grid-cols-3">
+                  <TabsList className="grid w-full grid-cols-4">
                     <TabsTrigger value="analytics">File Analytics</TabsTrigger>
+                    <TabsTrigger value="activity">Activity</TabsTrigger>
                     <TabsTrigger value="network">Network Monitor</TabsTrigger>
                     <TabsTrigger value="packets">Packet Monitor</TabsTrigger>
                   </TabsList>
                   <TabsContent value="analytics" className="space-y-4">
                     <FileAnalytics />
                   </TabsContent>
+                  <TabsContent value="activity" className="space-y-4">
+                    <ActivityTimeline />
+                  </TabsContent>
                   <TabsContent value="network" className="space-y-4">
                     <NetworkMonitor />
                   </TabsContent>
@@ -113,6 +444,7 @@ const FileDrive = () => {
                 </Tabs>
               </DialogContent>
             </Dialog>
+            <ChangePasswordDialog />
             <ThemeToggle />
             <Button 
               variant="ghost" 
@@ -129,14 +461,48 @@ const FileDrive = () => {
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input
               type="search"
-              placeholder="Search files..."
+              placeholder="Search names and content..."
               className="pl-9"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
             />
           </div>
           
+          <Select value={searchScope} onValueChange={(value) => setSearchScope(value as SearchScope)}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="folder">This folder</SelectItem>
+              <SelectItem value="subfolders">Include subfolders</SelectItem>
+            </SelectContent>
+          </Select>
+          
           <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              title="Keyboard shortcuts"
+              onClick={() => setIsShowingShortcuts(true)}
+            >
+              <Keyboard className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Manage tags"
+              onClick={() => setIsManagingTags(true)}
+            >
+              <Tags className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title="New folder"
+              onClick={() => setIsCreatingFolder(true)}
+            >
+              <FolderPlus className="h-4 w-4" />
+            </Button>
             <Button
               variant={view === 'grid' ? 'default' : 'outline'}
               size="icon"
@@ -157,12 +523,161 @@ const FileDrive = () => {
       
       <StorageUsage storage={storage} />
       
-      <FileUploader onUploadComplete={refreshStorage} />
+      <div className="flex flex-wrap gap-2 mb-6">
+        <Button
+          variant={section === 'drive' ? 'default' : 'outline'}
+          className="flex items-center gap-2"
+          onClick={() => setSection('drive')}
+        >
+          <HardDrive className="h-4 w-4" />
+          My Drive
+        </Button>
+        <Button
+          variant={section === 'recent' ? 'default' : 'outline'}
+          className="flex items-center gap-2"
+          onClick={() => setSection('recent')}
+        >
+          <Clock className="h-4 w-4" />
+          Recent
+        </Button>
+        <Button
+          variant={section === 'starred' ? 'default' : 'outline'}
+          className="flex items-center gap-2"
+          onClick={() => setSection('starred')}
+        >
+          <Star className="h-4 w-4" />
+          Starred
+        </Button>
+        <Button
+          variant={section === 'shared' ? 'default' : 'outline'}
+          className="flex items-center gap-2"
+          onClick={() => setSection('shared')}
+        >
+          <Share2 className="h-4 w-4" />
+          Shared by me
+        </Button>
+        <Button
+          variant={section === 'received' ? 'default' : 'outline'}
+          className="flex items-center gap-2"
+          onClick={() => setSection('received')}
+        >
+          <Users className="h-4 w-4" />
+          Shared with me
+        </Button>
+        <Button
+          variant={section === 'trash' ? 'default' : 'outline'}
+          className="flex items-center gap-2"
+          onClick={() => setSection('trash')}
+        >
+          <Trash2 className="h-4 w-4" />
+          Trash{storage.trash.length > 0 && ` (${storage.trash.length})`}
+        </Button>
+      </div>
+      
+      {/* Kept mounted in every section so running uploads are not interrupted */}
+      <div className={section === 'drive' ? undefined : 'hidden'}>
+        <FileUploader folderPath={currentPath} onUploadComplete={refreshStorage} />
+      </div>
+      
+      {section === 'trash' ? (
+        <TrashView storage={storage} onStorageChanged={refreshStorage} />
+      ) : section === 'shared' ? (
+        <SharedLinksView />
+      ) : section === 'received' ? (
+        <SharedWithMeView />
+      ) : (
+        <>
+          {section === 'recent' || section === 'starred' ? (
+            <h2 className="text-lg font-medium mb-4">{section === 'recent' ? 'Recent files' : 'Starred files'}</h2>
+          ) : (
+            <Breadcrumb className="mb-4">
+              <BreadcrumbList>
+                <BreadcrumbItem>
+                  {currentPath === ROOT_PATH ? (
+                    <BreadcrumbPage>My Drive</BreadcrumbPage>
+                  ) : (
+                    <FolderBreadcrumbLink
+                      label="My Drive"
+                      onOpen={() => setCurrentPath(ROOT_PATH)}
+                      onDropFiles={(fileIds) => moveFilesTo(fileIds, ROOT_PATH)}
+                    />
+                  )}
+                </BreadcrumbItem>
+                {getPathSegments(currentPath).map((segment) => (
+                  <Fragment key={segment.path}>
+                    <BreadcrumbSeparator />
+                    <BreadcrumbItem>
+                      {segment.path === currentPath ? (
+                        <BreadcrumbPage>{segment.name}</BreadcrumbPage>
+                      ) : (
+                        <FolderBreadcrumbLink
+                          label={segment.name}
+                          onOpen={() => setCurrentPath(segment.path)}
+                          onDropFiles={(fileIds) => moveFilesTo(fileIds, segment.path)}
+                        />
+                      )}
+                    </BreadcrumbItem>
+                  </Fragment>
+                ))}
+              </BreadcrumbList>
+            </Breadcrumb>
+          )}
+          
+          <FileFilterBar preferences={preferences} onChange={updatePreferences} />
+          
+          <FileList 
+            files={filteredFiles}
+            folders={filteredFolders}
+            allFolders={storage.folders}
+            onStorageChanged={refreshStorage}
+            onOpenFolder={setCurrentPath}
+            view={view}
+            showLocation={isRecursiveSearch || section !== 'drive'}
+            sortField={preferences.sortField}
+            sortDirection={preferences.sortDirection}
+            onSort={handleSort}
+            snippets={snippets}
+            knownTags={knownTags}
+            revealFileId={revealFileId}
+            onRevealed={clearRevealFileId}
+          />
+        </>
+      )}
+      
+      <FolderNameDialog
+        open={isCreatingFolder}
+        onOpenChange={setIsCreatingFolder}
+        title="New Folder"
+        submitLabel="Create"
+        onSubmit={handleCreateFolder}
+      />
+      
+      <CommandPalette
+        open={isPaletteOpen}
+        onOpenChange={setIsPaletteOpen}
+        actions={paletteActions}
+        folders={storage.folders}
+        files={storage.files}
+        onOpenFolder={openFolder}
+        onOpenFile={openFile}
+      />
+      
+      <KeyboardShortcutsDialog open={isShowingShortcuts} onOpenChange={setIsShowingShortcuts} />
       
-      <FileList 
-        files={filteredFiles}
-        onFileDeleted={refreshStorage}
-        view={view}
+      <TagManagerDialog
+        open={isManagingTags}
+        onOpenChange={setIsManagingTags}
+        storage={storage}
+        onStorageChanged={refreshStorage}
+        onFilterByTag={(tag) => {
+          setSearchQuery(`tag:${tag}`);
+          // Recent and starred files are filtered in place; otherwise the whole drive is searched
+          if (section !== 'recent' && section !== 'starred') {
+            setSection('drive');
+            setSearchScope('subfolders');
+            setCurrentPath(ROOT_PATH);
+          }
+        }}
       />
     </div>
   );
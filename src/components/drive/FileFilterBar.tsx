@@ -0,0 +1,154 @@
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BrowsePreferences,
+  SortField,
+  TypeCategory,
+  SizeRange,
+  DateRange,
+  TYPE_CATEGORIES,
+  DEFAULT_BROWSE_PREFERENCES,
+  hasActiveFilters
+} from '@/utils/browseUtils';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface FileFilterBarProps {
+  preferences: BrowsePreferences;
+  onChange: (changes: Partial<BrowsePreferences>) => void;
+}
+
+const SORT_FIELD_LABELS: Record<SortField, string> = {
+  name: 'Name',
+  size: 'Size',
+  type: 'Type',
+  modified: 'Modified',
+};
+
+const TYPE_LABELS: Record<TypeCategory, string> = {
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+  document: 'Documents',
+  code: 'Code',
+  archive: 'Archives',
+  other: 'Other',
+};
+
+const SIZE_LABELS: Record<Exclude<SizeRange, 'any'>, string> = {
+  small: 'Under 1 MB',
+  medium: '1–100 MB',
+  large: 'Over 100 MB',
+};
+
+const DATE_LABELS: Record<Exclude<DateRange, 'any'>, string> = {
+  day: 'Today',
+  week: 'Past week',
+  month: 'Past month',
+  year: 'Past year',
+};
+
+const FilterChip = ({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) => (
+  <Button
+    variant={active ? 'secondary' : 'outline'}
+    size="sm"
+    className={cn("h-7 rounded-full px-3 text-xs", active && "border border-primary")}
+    aria-pressed={active}
+    onClick={onClick}
+  >
+    {children}
+  </Button>
+);
+
+const FileFilterBar = ({ preferences, onChange }: FileFilterBarProps) => {
+  const toggleType = (type: TypeCategory) => {
+    onChange({
+      types: preferences.types.includes(type)
+        ? preferences.types.filter(t => t !== type)
+        : [...preferences.types, type],
+    });
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-muted-foreground w-16">Type</span>
+        {TYPE_CATEGORIES.map(type => (
+          <FilterChip key={type} active={preferences.types.includes(type)} onClick={() => toggleType(type)}>
+            {TYPE_LABELS[type]}
+          </FilterChip>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-muted-foreground w-16">Size</span>
+        {(Object.keys(SIZE_LABELS) as Exclude<SizeRange, 'any'>[]).map(size => (
+          <FilterChip
+            key={size}
+            active={preferences.size === size}
+            onClick={() => onChange({ size: preferences.size === size ? 'any' : size })}
+          >
+            {SIZE_LABELS[size]}
+          </FilterChip>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium text-muted-foreground w-16">Modified</span>
+          {(Object.keys(DATE_LABELS) as Exclude<DateRange, 'any'>[]).map(range => (
+            <FilterChip
+              key={range}
+              active={preferences.modified === range}
+              onClick={() => onChange({ modified: preferences.modified === range ? 'any' : range })}
+            >
+              {DATE_LABELS[range]}
+            </FilterChip>
+          ))}
+          {hasActiveFilters(preferences) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs flex items-center gap-1"
+              onClick={() => onChange({
+                types: DEFAULT_BROWSE_PREFERENCES.types,
+                size: DEFAULT_BROWSE_PREFERENCES.size,
+                modified: DEFAULT_BROWSE_PREFERENCES.modified,
+              })}
+            >
+              <X className="h-3 w-3" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Select value={preferences.sortField} onValueChange={(field) => onChange({ sortField: field as SortField })}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SORT_FIELD_LABELS) as SortField[]).map(field => (
+                <SelectItem key={field} value={field}>{SORT_FIELD_LABELS[field]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            title={preferences.sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+            onClick={() => onChange({ sortDirection: preferences.sortDirection === 'asc' ? 'desc' : 'asc' })}
+          >
+            {preferences.sortDirection === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FileFilterBar;
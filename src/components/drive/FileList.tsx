@@ -1,28 +1,271 @@
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useToast } from "@/components/ui/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
   DropdownMenuItem, 
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
-import { FileMetadata, getCurrentUser, deleteFile, downloadFile, formatFileSize, getFileIcon } from '@/utils/storageUtils';
-import { Download, Trash2, MoreVertical } from 'lucide-react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import MoveDialog from './MoveDialog';
+import FilePreviewDialog from './FilePreviewDialog';
+import FileThumbnail from './FileThumbnail';
+import VersionHistoryDialog from './VersionHistoryDialog';
+import ShareDialog from './ShareDialog';
+import ShareWithUserDialog, { ShareableItem } from './ShareWithUserDialog';
+import BulkActionBar, { BatchProgress } from './BulkActionBar';
+import TagDialog from './TagDialog';
+import EditTagsDialog from './EditTagsDialog';
+import InlineNameEditor from './InlineNameEditor';
+import FilePropertiesDialog from './FilePropertiesDialog';
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { useFileMove, useFileDropTarget } from "@/hooks/use-file-move";
+import { FileMetadata, User, getCurrentUser, getUserStorage, downloadFile, renameFile, formatFileSize, getFileIcon } from '@/utils/storageUtils';
+import { trashFile, trashFilesById, restoreFile } from '@/utils/trashUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import { renameFolder, moveFolder, deleteFolder } from '@/utils/folderUtils';
+import { startFileDrag } from '@/utils/dragUtils';
+import { ColorLabel, COLOR_LABELS, MAX_TAG_LENGTH, normalizeTag, addTagToFiles, setStarred, setColorLabel } from '@/utils/tagUtils';
+import { recordActivity, describeFile } from '@/utils/activityUtils';
+import { SortField, SortDirection, getTypeLabel } from '@/utils/browseUtils';
+import { SnippetPart } from '@/utils/searchUtils';
+import { getExtensionChangeWarning } from '@/utils/previewUtils';
+import { ArchiveDownloadResult, getSelectionArchive, getFolderArchive, downloadArchive } from '@/utils/archiveUtils';
+import { ROOT_PATH, normalizePath, joinPath, getFolderName, getParentPath, isWithinFolder, validateFileName, validateFolderName, formatLocation } from '@/utils/pathUtils';
+import { Download, Trash2, MoreVertical, Folder, Pencil, FolderInput, History, Share2, Link, Users, FileArchive, ArrowUp, ArrowDown, ArrowUpDown, Star, Tag, Palette, Eye, FolderOpen, Info } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface FileListProps {
   files: FileMetadata[];
-  onFileDeleted: () => void;
+  folders: string[]; // folders shown ahead of the files
+  allFolders: string[]; // every folder, used as move destinations
+  onStorageChanged: () => void;
+  onOpenFolder: (path: string) => void;
   view: 'grid' | 'list';
+  showLocation?: boolean; // show each item's folder, e.g. for subfolder search results
+  sortField: SortField;
+  sortDirection: SortDirection;
+  onSort: (field: SortField) => void; // a column header in list view was clicked
+  snippets?: Record<string, SnippetPart[]>; // matching content by file id, for search results
+  knownTags?: string[]; // every tag in use, suggested when tagging a file
+  revealFileId?: string | null; // file to focus and preview once it is listed, e.g. from the command palette
+  onRevealed?: () => void;
 }
 
-const FileList = ({ files, onFileDeleted, view }: FileListProps) => {
+type FolderAction = { type: 'move' | 'delete'; path: string } | null;
+// The file (by id) or folder (by path) whose name is being edited
+type RenameTarget = { type: 'file' | 'folder'; id: string } | null;
+type BulkDialog = 'move' | 'tag' | null;
+
+const FileList = ({
+  files,
+  folders,
+  allFolders,
+  onStorageChanged,
+  onOpenFolder,
+  view,
+  showLocation = false,
+  sortField,
+  sortDirection,
+  onSort,
+  snippets = {},
+  knownTags = [],
+  revealFileId = null,
+  onRevealed
+}: FileListProps) => {
   const { toast } = useToast();
+  const backend = useStorageBackend();
+  const moveFilesTo = useFileMove(onStorageChanged);
+  const [folderAction, setFolderAction] = useState<FolderAction>(null);
+  const [renaming, setRenaming] = useState<RenameTarget>(null);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
+  const [shareFileId, setShareFileId] = useState<string | null>(null);
+  const [sharedItem, setSharedItem] = useState<ShareableItem | null>(null);
+  const [tagsFileId, setTagsFileId] = useState<string | null>(null);
+  const [propertiesFileId, setPropertiesFileId] = useState<string | null>(null);
+  const [moveFileId, setMoveFileId] = useState<string | null>(null);
+  // Keyboard focus over folders followed by files; only the focused item is in the tab order
+  const [focusIndex, setFocusIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkDialog, setBulkDialog] = useState<BulkDialog>(null);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  // Index of the last file clicked without shift, where shift-click ranges start
+  const selectionAnchor = useRef<number | null>(null);
+  const selectedFiles = files.filter(file => selectedIds.has(file.id));
+  const itemCount = folders.length + files.length;
+  const activeIndex = Math.min(focusIndex, Math.max(itemCount - 1, 0));
+  
+  useEffect(() => {
+    const index = revealFileId ? files.findIndex(file => file.id === revealFileId) : -1;
+    if (index === -1) return;
+    
+    setFocusIndex(folders.length + index);
+    setPreviewIndex(index);
+    onRevealed?.();
+  }, [revealFileId, files, folders.length, onRevealed]);
   
-  const handleDownload = (file: FileMetadata) => {
+  // Files that left the current view, e.g. through a new search, drop out of the selection
+  useEffect(() => {
+    setSelectedIds(selected => {
+      const visible = new Set(files.filter(file => selected.has(file.id)).map(file => file.id));
+      return visible.size === selected.size ? selected : visible;
+    });
+  }, [files]);
+  
+  const handleToggleSelect = (index: number, extendRange: boolean) => {
+    const file = files[index];
+    const anchor = selectionAnchor.current;
+    
+    setSelectedIds(selected => {
+      const next = new Set(selected);
+      
+      if (extendRange && anchor !== null && anchor < files.length) {
+        // The range takes on the state of the anchor file
+        const select = selected.has(files[anchor].id);
+        for (let i = Math.min(anchor, index); i <= Math.max(anchor, index); i++) {
+          if (select) {
+            next.add(files[i].id);
+          } else {
+            next.delete(files[i].id);
+          }
+        }
+      } else if (next.has(file.id)) {
+        next.delete(file.id);
+      } else {
+        next.add(file.id);
+      }
+      
+      return next;
+    });
+    
+    if (!extendRange) {
+      selectionAnchor.current = index;
+    }
+  };
+  
+  const handleSelectAll = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(files.map(file => file.id)) : new Set());
+    selectionAnchor.current = null;
+  };
+  
+  const focusItem = (index: number) => {
+    setFocusIndex(index);
+    containerRef.current?.querySelector<HTMLElement>(`[data-item-index="${index}"]`)?.focus();
+  };
+
+  // Items in the first grid row, i.e. how far up and down move
+  const getColumnCount = (): number => {
+    if (view === 'list') return 1;
+    
+    const items = Array.from(containerRef.current?.querySelectorAll<HTMLElement>('[data-item-index]') ?? []);
+    const firstRow = items.filter(item => item.offsetTop === items[0].offsetTop);
+    return Math.max(firstRow.length, 1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    // Only keys pressed on an item itself, not on its buttons or the rename field
+    if (target.dataset.itemIndex === undefined || e.altKey || e.ctrlKey || e.metaKey) {
+      return;
+    }
+    
+    const index = Number(target.dataset.itemIndex);
+    const folder = index < folders.length ? folders[index] : null;
+    const fileIndex = index - folders.length;
+    const file = folder === null ? files[fileIndex] : null;
+    const columns = getColumnCount();
+    
+    switch (e.key) {
+      case 'ArrowLeft':
+        if (view === 'grid') focusItem(Math.max(index - 1, 0));
+        break;
+      case 'ArrowRight':
+        if (view === 'grid') focusItem(Math.min(index + 1, itemCount - 1));
+        break;
+      case 'ArrowUp':
+        focusItem(index - columns >= 0 ? index - columns : index);
+        break;
+      case 'ArrowDown':
+        focusItem(index + columns < itemCount ? index + columns : index);
+        break;
+      case 'Home':
+        focusItem(0);
+        break;
+      case 'End':
+        focusItem(itemCount - 1);
+        break;
+      case 'Enter':
+        if (folder !== null) {
+          onOpenFolder(folder);
+        } else {
+          setPreviewIndex(fileIndex);
+        }
+        break;
+      case ' ':
+        if (file) handleToggleSelect(fileIndex, e.shiftKey);
+        break;
+      case 'F2':
+        setRenaming(folder !== null ? { type: 'folder', id: folder } : { type: 'file', id: file!.id });
+        break;
+      case 'Delete':
+        if (folder !== null) {
+          setFolderAction({ type: 'delete', path: folder });
+        } else {
+          handleDelete(file!);
+        }
+        break;
+      default:
+        return;
+    }
+    
+    e.preventDefault();
+  };
+
+  // Makes an item focusable and part of the keyboard navigation
+  const navigationProps = (index: number): NavigationProps => ({
+    tabIndex: index === activeIndex ? 0 : -1,
+    'data-item-index': index,
+    onFocus: () => setFocusIndex(index),
+  });
+
+  const handleDownload = async (file: FileMetadata) => {
     const user = getCurrentUser();
     
     if (!user) {
@@ -34,16 +277,32 @@ const FileList = ({ files, onFileDeleted, view }: FileListProps) => {
       return;
     }
     
-    const fileData = downloadFile(user, file.id);
+    let fileData: Blob | null;
+    
+    try {
+      fileData = await downloadFile(backend, user, file.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+      return;
+    }
     
     if (fileData) {
       // Create a downloadable link
+      const url = URL.createObjectURL(fileData);
       const link = document.createElement('a');
-      link.href = fileData;
+      link.href = url;
       link.download = file.name;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      recordActivity(backend, user, [{ action: 'download', ...describeFile(file) }])
+        .then(onStorageChanged)
+        .catch(() => undefined);
       
       toast({
         title: "Download Started",
@@ -58,7 +317,7 @@ const FileList = ({ files, onFileDeleted, view }: FileListProps) => {
     }
   };
 
-  const handleDelete = (file: FileMetadata) => {
+  const handleDelete = async (file: FileMetadata) => {
     const user = getCurrentUser();
     
     if (!user) {
@@ -70,14 +329,30 @@ const FileList = ({ files, onFileDeleted, view }: FileListProps) => {
       return;
     }
     
-    const success = deleteFile(user, file.id);
+    let success: boolean;
+    
+    try {
+      success = await trashFile(backend, user, file.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+      return;
+    }
     
     if (success) {
       toast({
-        title: "Success",
-        description: `${file.name} has been deleted`,
+        title: "Moved to Trash",
+        description: `${file.name} has been moved to the trash`,
+        action: (
+          <ToastAction altText="Undo" onClick={() => handleUndoDelete(user, file)}>
+            Undo
+          </ToastAction>
+        ),
       });
-      onFileDeleted();
+      onStorageChanged();
     } else {
       toast({
         title: "Error",
@@ -87,7 +362,327 @@ const FileList = ({ files, onFileDeleted, view }: FileListProps) => {
     }
   };
 
-  if (files.length === 0) {
+  const handleUndoDelete = async (user: User, file: FileMetadata) => {
+    try {
+      if (await restoreFile(backend, user, file.id)) {
+        onStorageChanged();
+        return;
+      }
+    } catch (error) {
+      // Reported below
+    }
+    
+    toast({
+      title: "Error",
+      description: `${file.name} could not be restored`,
+      variant: "destructive",
+    });
+  };
+
+  // Run a batch operation on the selected files, reporting storage errors
+  const runBulkAction = async (action: (user: User, fileIds: string[]) => Promise<void>) => {
+    const user = getCurrentUser();
+    
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "Authentication required",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    try {
+      await action(user, selectedFiles.map(file => file.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+    }
+    
+    setBulkDialog(null);
+    setBatchProgress(null);
+    onStorageChanged();
+  };
+
+  const handleBulkDelete = () => {
+    const trashed = selectedFiles;
+    
+    runBulkAction(async (user, fileIds) => {
+      const count = await trashFilesById(backend, user, fileIds);
+      setSelectedIds(new Set());
+      toast({
+        title: "Moved to Trash",
+        description: `${count} ${count === 1 ? 'file has' : 'files have'} been moved to the trash`,
+        action: (
+          <ToastAction altText="Undo" onClick={() => handleUndoBulkDelete(user, trashed)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    });
+  };
+
+  const handleUndoBulkDelete = (user: User, trashed: FileMetadata[]) => {
+    runBulkAction(async () => {
+      for (const file of trashed) {
+        await restoreFile(backend, user, file.id);
+      }
+    });
+  };
+
+  const handleBulkMove = (destinationPath: string) => {
+    setBulkDialog(null);
+    setSelectedIds(new Set());
+    moveFilesTo(selectedFiles.map(file => file.id), destinationPath);
+  };
+
+  const handleBulkTag = (tag: string) => {
+    runBulkAction(async (user, fileIds) => {
+      const tagged = await addTagToFiles(backend, user, fileIds, tag);
+      if (tagged === null) {
+        toast({
+          title: "Error",
+          description: `Tags can use letters, numbers, "-" and "_", up to ${MAX_TAG_LENGTH} characters`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Tag Added",
+        description: `${tagged} ${tagged === 1 ? 'file was' : 'files were'} tagged "${normalizeTag(tag)}"`,
+      });
+    });
+  };
+
+  const runFileUpdate = async (action: (user: User) => Promise<unknown>) => {
+    const user = getCurrentUser();
+    
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "Authentication required",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    try {
+      await action(user);
+      onStorageChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleStar = (file: FileMetadata) => {
+    runFileUpdate((user) => setStarred(backend, user, [file.id], !file.starred));
+  };
+
+  const handleSetColorLabel = (file: FileMetadata, colorLabel: ColorLabel | null) => {
+    runFileUpdate((user) => setColorLabel(backend, user, [file.id], colorLabel));
+  };
+
+  // Dragging a selected file drags the whole selection along with it
+  const handleDragStart = (e: React.DragEvent, file: FileMetadata) => {
+    const dragged = selectedIds.has(file.id) ? selectedFiles : [file];
+    startFileDrag(e.dataTransfer, dragged.map(f => f.id), file.name);
+  };
+
+  const reportArchiveResult = (result: ArchiveDownloadResult, count: number) => {
+    if (result.status === 'cancelled') return;
+    
+    if (result.status === 'too-large') {
+      toast({
+        title: "Selection Too Large",
+        description: `This browser can only build ZIP files up to ${formatFileSize(result.limit)}. Download fewer files at once, or use a browser that can save straight to disk, such as Chrome or Edge.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    toast({
+      title: "Download Complete",
+      description: result.skipped > 0
+        ? `Saved ${count - result.skipped} files as a ZIP; ${result.skipped} could not be found`
+        : `Saved ${count} ${count === 1 ? 'file' : 'files'} as a ZIP`,
+    });
+  };
+
+  // Decrypt the selected files one by one into a ZIP that keeps their folders
+  const handleDownloadZip = () => {
+    const contents = getSelectionArchive(selectedFiles);
+    
+    runBulkAction(async (user) => {
+      const result = await downloadArchive(
+        backend,
+        user,
+        `keydrive-${new Date().toISOString().slice(0, 10)}.zip`,
+        contents,
+        ({ done, total }) => setBatchProgress({ label: 'Preparing ZIP', done, total })
+      );
+      reportArchiveResult(result, contents.files.length);
+    });
+  };
+
+  const handleDownloadFolder = (path: string) => {
+    runBulkAction(async (user) => {
+      const contents = getFolderArchive(await getUserStorage(backend, user), path);
+      const result = await downloadArchive(
+        backend,
+        user,
+        `${getFolderName(path)}.zip`,
+        contents,
+        ({ done, total }) => setBatchProgress({ label: 'Preparing ZIP', done, total })
+      );
+      reportArchiveResult(result, contents.files.length);
+    });
+  };
+
+  const runFolderAction = async (
+    action: (user: User) => Promise<string | boolean | null>,
+    successMessage: string,
+    errorMessage: string
+  ) => {
+    const user = getCurrentUser();
+    
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "Authentication required",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    let result: string | boolean | null;
+    try {
+      result = await action(user);
+    } catch (error) {
+      setFolderAction(null);
+      toast({
+        title: "Error",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+      return;
+    }
+    setFolderAction(null);
+    
+    if (result) {
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+      onStorageChanged();
+    } else {
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Inline renames resolve to an error message for the editor, or null once renamed
+  const runRename = async (rename: (user: User) => Promise<string | null>): Promise<string | null> => {
+    const user = getCurrentUser();
+    
+    if (!user) {
+      return "Authentication required";
+    }
+    
+    try {
+      const error = await rename(user);
+      if (!error) {
+        setRenaming(null);
+        onStorageChanged();
+      }
+      return error;
+    } catch (error) {
+      return describeStorageError(error);
+    }
+  };
+
+  const handleRenameFile = (file: FileMetadata, name: string) => {
+    return runRename(async (user) => {
+      const result = await renameFile(backend, user, file.id, name);
+      switch (result.status) {
+        case 'ok':
+          return null;
+        case 'invalid':
+          return result.error;
+        case 'exists':
+          return `A file named "${name}" already exists in this folder`;
+        default:
+          return "The file no longer exists";
+      }
+    });
+  };
+
+  const handleRenameFolder = (path: string, name: string) => {
+    return runRename(async (user) => {
+      // Checked up front so the editor can say why; renameFolder refuses it either way
+      if (allFolders.includes(joinPath(getParentPath(path), name))) {
+        return `A folder named "${name}" already exists here`;
+      }
+      return await renameFolder(backend, user, path, name) ? null : "The folder could not be renamed";
+    });
+  };
+
+  const handleMoveFolder = (path: string, destinationPath: string) => {
+    runFolderAction(
+      (user) => moveFolder(backend, user, path, destinationPath),
+      `${getFolderName(path)} has been moved`,
+      "The folder cannot be moved there"
+    );
+  };
+
+  const handleDeleteFolder = (path: string) => {
+    runFolderAction(
+      (user) => deleteFolder(backend, user, path),
+      `${getFolderName(path)} has been deleted`,
+      "Failed to delete folder"
+    );
+  };
+
+  const folderDialogs = (
+    <>
+      <MoveDialog
+        open={folderAction?.type === 'move'}
+        onOpenChange={(open) => !open && setFolderAction(null)}
+        title={`Move ${folderAction ? getFolderName(folderAction.path) : ''}`}
+        folders={folderAction ? allFolders.filter(folder => !isWithinFolder(folder, folderAction.path)) : []}
+        currentPath={folderAction ? getParentPath(folderAction.path) : ROOT_PATH}
+        onSubmit={(destinationPath) => handleMoveFolder(folderAction.path, destinationPath)}
+      />
+      <AlertDialog open={folderAction?.type === 'delete'} onOpenChange={(open) => !open && setFolderAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {folderAction ? getFolderName(folderAction.path) : ''}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The folder and its subfolders will be removed. The files inside are moved to the trash and can be restored from there.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleDeleteFolder(folderAction.path)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+
+  if (files.length === 0 && folders.length === 0) {
     return (
       <div className="text-center py-16">
         <p className="text-xl font-medium text-muted-foreground">No files found</p>
@@ -96,93 +691,739 @@ const FileList = ({ files, onFileDeleted, view }: FileListProps) => {
     );
   }
 
+  const sortProps = { sortField, sortDirection, onSort };
+
+  const folderProps = (path: string, index: number) => ({
+    path,
+    navigation: navigationProps(index),
+    showLocation,
+    onOpen: () => onOpenFolder(path),
+    isRenaming: renaming?.type === 'folder' && renaming.id === path,
+    onRename: () => setRenaming({ type: 'folder', id: path }),
+    onRenameSubmit: (name: string) => handleRenameFolder(path, name),
+    onRenameCancel: () => setRenaming(null),
+    onMove: () => setFolderAction({ type: 'move', path }),
+    onDelete: () => setFolderAction({ type: 'delete', path }),
+    onShare: () => setSharedItem({ type: 'folder', id: path, name: getFolderName(path) }),
+    onDownload: () => handleDownloadFolder(path),
+    onDropFiles: (fileIds: string[]) => moveFilesTo(fileIds, path),
+  });
+
   return (
     <>
+      {(files.length > 0 || batchProgress) && (
+        <BulkActionBar
+          selectedCount={selectedFiles.length}
+          selectedSize={selectedFiles.reduce((total, file) => total + file.size, 0)}
+          totalCount={files.length}
+          progress={batchProgress}
+          onSelectAll={handleSelectAll}
+          onDelete={handleBulkDelete}
+          onMove={() => setBulkDialog('move')}
+          onDownloadZip={handleDownloadZip}
+          onTag={() => setBulkDialog('tag')}
+        />
+      )}
+      <div ref={containerRef} onKeyDown={handleKeyDown}>
       {view === 'grid' ? (
         <div className="file-grid">
-          {files.map((file) => (
+          {folders.map((path, index) => (
+            <FolderCard key={path} {...folderProps(path, index)} />
+          ))}
+          {files.map((file, index) => (
             <FileCard 
               key={file.id} 
               file={file} 
+              showLocation={showLocation}
+              snippet={snippets[file.id]}
+              selected={selectedIds.has(file.id)}
+              onToggleSelect={(extendRange) => handleToggleSelect(index, extendRange)}
+              onPreview={() => setPreviewIndex(index)}
+              onShowHistory={() => setHistoryFileId(file.id)}
+              onShareLink={() => setShareFileId(file.id)}
+              onShareWithUser={() => setSharedItem({ type: 'file', id: file.id, name: file.name })}
+              navigation={navigationProps(folders.length + index)}
+              isRenaming={renaming?.type === 'file' && renaming.id === file.id}
+              onRename={() => setRenaming({ type: 'file', id: file.id })}
+              onRenameSubmit={(name) => handleRenameFile(file, name)}
+              onRenameCancel={() => setRenaming(null)}
+              onToggleStar={() => handleToggleStar(file)}
+              onEditTags={() => setTagsFileId(file.id)}
+              onDragStart={(e) => handleDragStart(e, file)}
+              onMove={() => setMoveFileId(file.id)}
+              onShowProperties={() => setPropertiesFileId(file.id)}
+              onSetColorLabel={(colorLabel) => handleSetColorLabel(file, colorLabel)}
               onDownload={() => handleDownload(file)} 
               onDelete={() => handleDelete(file)} 
             />
           ))}
         </div>
       ) : (
-        <div className="space-y-2">
-          {files.map((file) => (
-            <FileRow 
-              key={file.id} 
-              file={file} 
-              onDownload={() => handleDownload(file)} 
-              onDelete={() => handleDelete(file)} 
-            />
-          ))}
-        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10" />
+              <SortableHead field="name" label="Name" {...sortProps} />
+              <SortableHead field="size" label="Size" className="hidden sm:table-cell w-28" {...sortProps} />
+              <SortableHead field="type" label="Type" className="hidden md:table-cell w-24" {...sortProps} />
+              <SortableHead field="modified" label="Modified" className="hidden md:table-cell w-32" {...sortProps} />
+              <TableHead className="w-60">
+                <span className="sr-only">Actions</span>
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {folders.map((path, index) => (
+              <FolderRow key={path} {...folderProps(path, index)} />
+            ))}
+            {files.map((file, index) => (
+              <FileRow
+                key={file.id}
+                file={file}
+                showLocation={showLocation}
+                snippet={snippets[file.id]}
+                selected={selectedIds.has(file.id)}
+                onToggleSelect={(extendRange) => handleToggleSelect(index, extendRange)}
+                onPreview={() => setPreviewIndex(index)}
+                onShowHistory={() => setHistoryFileId(file.id)}
+                onShareLink={() => setShareFileId(file.id)}
+                onShareWithUser={() => setSharedItem({ type: 'file', id: file.id, name: file.name })}
+                navigation={navigationProps(folders.length + index)}
+                isRenaming={renaming?.type === 'file' && renaming.id === file.id}
+                onRename={() => setRenaming({ type: 'file', id: file.id })}
+                onRenameSubmit={(name) => handleRenameFile(file, name)}
+                onRenameCancel={() => setRenaming(null)}
+                onToggleStar={() => handleToggleStar(file)}
+                onEditTags={() => setTagsFileId(file.id)}
+                onDragStart={(e) => handleDragStart(e, file)}
+                onMove={() => setMoveFileId(file.id)}
+                onShowProperties={() => setPropertiesFileId(file.id)}
+                onSetColorLabel={(colorLabel) => handleSetColorLabel(file, colorLabel)}
+                onDownload={() => handleDownload(file)}
+                onDelete={() => handleDelete(file)}
+              />
+            ))}
+          </TableBody>
+        </Table>
       )}
+      </div>
+      {folderDialogs}
+      <FilePreviewDialog
+        files={files}
+        index={previewIndex}
+        onIndexChange={setPreviewIndex}
+        onDownload={handleDownload}
+      />
+      <VersionHistoryDialog
+        file={files.find(file => file.id === historyFileId) ?? null}
+        onOpenChange={(open) => !open && setHistoryFileId(null)}
+        onDownloadCurrent={handleDownload}
+        onStorageChanged={onStorageChanged}
+      />
+      <ShareDialog
+        file={files.find(file => file.id === shareFileId) ?? null}
+        onOpenChange={(open) => !open && setShareFileId(null)}
+      />
+      <ShareWithUserDialog
+        item={sharedItem}
+        onOpenChange={(open) => !open && setSharedItem(null)}
+      />
+      <FilePropertiesDialog
+        file={files.find(file => file.id === propertiesFileId) ?? null}
+        onOpenChange={(open) => !open && setPropertiesFileId(null)}
+      />
+      <MoveDialog
+        open={moveFileId !== null}
+        onOpenChange={(open) => !open && setMoveFileId(null)}
+        title={`Move ${files.find(file => file.id === moveFileId)?.name ?? ''}`}
+        description="If the name is already taken in the destination, the file gets a numbered name."
+        folders={allFolders}
+        currentPath={normalizePath(files.find(file => file.id === moveFileId)?.path)}
+        onSubmit={(destinationPath) => {
+          setMoveFileId(null);
+          if (moveFileId) moveFilesTo([moveFileId], destinationPath);
+        }}
+      />
+      <EditTagsDialog
+        file={files.find(file => file.id === tagsFileId) ?? null}
+        knownTags={knownTags}
+        onOpenChange={(open) => !open && setTagsFileId(null)}
+        onStorageChanged={onStorageChanged}
+      />
+      <MoveDialog
+        open={bulkDialog === 'move'}
+        onOpenChange={(open) => !open && setBulkDialog(null)}
+        title={`Move ${selectedFiles.length} ${selectedFiles.length === 1 ? 'file' : 'files'}`}
+        description="Files whose name is already taken in the destination get a numbered name."
+        folders={allFolders}
+        currentPath={selectedFiles.length > 0 ? normalizePath(selectedFiles[0].path) : ROOT_PATH}
+        onSubmit={handleBulkMove}
+      />
+      <TagDialog
+        open={bulkDialog === 'tag'}
+        onOpenChange={(open) => !open && setBulkDialog(null)}
+        description={`The tag is added to ${selectedFiles.length} ${selectedFiles.length === 1 ? 'file' : 'files'}.`}
+        onSubmit={handleBulkTag}
+      />
     </>
   );
 };
 
+interface NavigationProps {
+  tabIndex: number;
+  'data-item-index': number;
+  onFocus: () => void;
+}
+
+const FOCUS_RING = "outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+// A folder with files dragged over it
+const DROP_TARGET = "ring-2 ring-primary bg-accent";
+
+interface FolderItemProps {
+  path: string;
+  navigation: NavigationProps;
+  showLocation: boolean;
+  isRenaming: boolean;
+  onOpen: () => void;
+  onRename: () => void;
+  onRenameSubmit: (name: string) => Promise<string | null>;
+  onRenameCancel: () => void;
+  onMove: () => void;
+  onDelete: () => void;
+  onShare: () => void;
+  onDownload: () => void;
+  onDropFiles: (fileIds: string[]) => void; // files dragged onto the folder
+}
+
+type FolderMenuProps = Pick<FolderItemProps, 'onRename' | 'onMove' | 'onDelete' | 'onShare' | 'onDownload'>;
+
+const FolderMenu = ({ onRename, onMove, onDelete, onShare, onDownload }: FolderMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="ghost" size="icon" onClick={(e) => e.stopPropagation()}>
+        <MoreVertical className="h-4 w-4" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuItem onClick={onRename}>
+        <Pencil className="h-4 w-4 mr-2" />
+        Rename
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={onMove}>
+        <FolderInput className="h-4 w-4 mr-2" />
+        Move
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={onShare}>
+        <Users className="h-4 w-4 mr-2" />
+        Share
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={onDownload}>
+        <FileArchive className="h-4 w-4 mr-2" />
+        Download as ZIP
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={onDelete} className="text-destructive">
+        <Trash2 className="h-4 w-4 mr-2" />
+        Delete
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+// Right-click menu with the same actions as the folder's menu button
+const FolderContextMenu = ({ children, onOpen, onRename, onMove, onDelete, onShare, onDownload }: FolderMenuProps & { children: React.ReactNode; onOpen: () => void }) => (
+  <ContextMenu>
+    <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+    <ContextMenuContent className="w-52">
+      <ContextMenuItem onClick={onOpen}>
+        <FolderOpen className="h-4 w-4 mr-2" />
+        Open
+        <ContextMenuShortcut>Enter</ContextMenuShortcut>
+      </ContextMenuItem>
+      <ContextMenuItem onClick={onRename}>
+        <Pencil className="h-4 w-4 mr-2" />
+        Rename
+        <ContextMenuShortcut>F2</ContextMenuShortcut>
+      </ContextMenuItem>
+      <ContextMenuItem onClick={onMove}>
+        <FolderInput className="h-4 w-4 mr-2" />
+        Move
+      </ContextMenuItem>
+      <ContextMenuItem onClick={onShare}>
+        <Users className="h-4 w-4 mr-2" />
+        Share
+      </ContextMenuItem>
+      <ContextMenuItem onClick={onDownload}>
+        <FileArchive className="h-4 w-4 mr-2" />
+        Download as ZIP
+      </ContextMenuItem>
+      <ContextMenuSeparator />
+      <ContextMenuItem onClick={onDelete} className="text-destructive">
+        <Trash2 className="h-4 w-4 mr-2" />
+        Delete
+        <ContextMenuShortcut>Del</ContextMenuShortcut>
+      </ContextMenuItem>
+    </ContextMenuContent>
+  </ContextMenu>
+);
+
+const FolderName = ({ path, isRenaming, onRenameSubmit, onRenameCancel }: Pick<FolderItemProps, 'path' | 'isRenaming' | 'onRenameSubmit' | 'onRenameCancel'>) => {
+  if (isRenaming) {
+    return (
+      <InlineNameEditor
+        initialName={getFolderName(path)}
+        validate={validateFolderName}
+        onSubmit={onRenameSubmit}
+        onCancel={onRenameCancel}
+      />
+    );
+  }
+  
+  return (
+    <h3 className="font-medium truncate" title={getFolderName(path)}>
+      {getFolderName(path)}
+    </h3>
+  );
+};
+
+const FolderCard = ({ path, navigation, showLocation, isRenaming, onOpen, onRenameSubmit, onRenameCancel, onDropFiles, ...menuProps }: FolderItemProps) => {
+  const { isOver, dropTargetProps } = useFileDropTarget(onDropFiles);
+  
+  return (
+    <FolderContextMenu onOpen={onOpen} {...menuProps}>
+      <Card className={cn("file-item overflow-hidden", FOCUS_RING, isOver && DROP_TARGET)} {...navigation} {...dropTargetProps}>
+        <div 
+          className="h-36 flex items-center justify-center bg-muted p-4 cursor-pointer"
+          onClick={onOpen}
+        >
+          <Folder className="h-14 w-14 text-primary" />
+        </div>
+        <CardContent className="p-4 flex items-start justify-between gap-2">
+          <div className="min-w-0 flex-1" onDoubleClick={menuProps.onRename}>
+            <FolderName path={path} isRenaming={isRenaming} onRenameSubmit={onRenameSubmit} onRenameCancel={onRenameCancel} />
+            <p className="text-xs text-muted-foreground mt-1 truncate">
+              {showLocation ? formatLocation(getParentPath(path)) : 'Folder'}
+            </p>
+          </div>
+          <FolderMenu {...menuProps} />
+        </CardContent>
+      </Card>
+    </FolderContextMenu>
+  );
+};
+
+const FolderRow = ({ path, navigation, showLocation, isRenaming, onOpen, onRenameSubmit, onRenameCancel, onDropFiles, ...menuProps }: FolderItemProps) => {
+  const { isOver, dropTargetProps } = useFileDropTarget(onDropFiles);
+  
+  return (
+    <FolderContextMenu onOpen={onOpen} {...menuProps}>
+      <TableRow className={cn(FOCUS_RING, isOver && DROP_TARGET)} {...navigation} {...dropTargetProps}>
+        <TableCell />
+        <TableCell className="cursor-pointer" onClick={onOpen}>
+          <div className="flex items-center space-x-3 min-w-0">
+            <Folder className="h-6 w-6 text-primary shrink-0" />
+            <div className="min-w-0 flex-1">
+              <FolderName path={path} isRenaming={isRenaming} onRenameSubmit={onRenameSubmit} onRenameCancel={onRenameCancel} />
+              {showLocation && (
+                <p className="text-xs text-muted-foreground truncate">{formatLocation(getParentPath(path))}</p>
+              )}
+            </div>
+          </div>
+        </TableCell>
+        <TableCell className="hidden sm:table-cell text-muted-foreground">—</TableCell>
+        <TableCell className="hidden md:table-cell text-muted-foreground">Folder</TableCell>
+        <TableCell className="hidden md:table-cell text-muted-foreground">—</TableCell>
+        <TableCell className="text-right">
+          <FolderMenu {...menuProps} />
+        </TableCell>
+      </TableRow>
+    </FolderContextMenu>
+  );
+};
+
+interface SortableHeadProps {
+  field: SortField;
+  label: string;
+  className?: string;
+  sortField: SortField;
+  sortDirection: SortDirection;
+  onSort: (field: SortField) => void;
+}
+
+const SortableHead = ({ field, label, className, sortField, sortDirection, onSort }: SortableHeadProps) => {
+  const active = field === sortField;
+  const SortIcon = !active ? ArrowUpDown : sortDirection === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead
+      className={className}
+      aria-sort={active ? (sortDirection === 'asc' ? 'ascending' : 'descending') : undefined}
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn("-ml-3 h-8 flex items-center gap-1", active && "text-foreground")}
+        onClick={() => onSort(field)}
+      >
+        {label}
+        <SortIcon className={cn("h-3 w-3", !active && "opacity-50")} />
+      </Button>
+    </TableHead>
+  );
+};
+
 interface FileItemProps {
   file: FileMetadata;
+  navigation: NavigationProps;
+  showLocation: boolean;
+  snippet?: SnippetPart[];
+  selected: boolean;
+  onToggleSelect: (extendRange: boolean) => void; // extendRange when shift is held
+  isRenaming: boolean;
+  onRename: () => void;
+  onRenameSubmit: (name: string) => Promise<string | null>;
+  onRenameCancel: () => void;
+  onPreview: () => void;
+  onDragStart: (e: React.DragEvent) => void;
   onDownload: () => void;
+  onShowHistory: () => void;
+  onShareLink: () => void;
+  onShareWithUser: () => void;
+  onToggleStar: () => void;
+  onEditTags: () => void;
+  onSetColorLabel: (colorLabel: ColorLabel | null) => void;
+  onMove: () => void;
+  onShowProperties: () => void;
   onDelete: () => void;
 }
 
-const FileCard = ({ file, onDownload, onDelete }: FileItemProps) => {
+const COLOR_LABEL_CLASSES: Record<ColorLabel, string> = {
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  gray: 'bg-gray-400',
+};
+
+const ColorDot = ({ colorLabel, className }: { colorLabel?: ColorLabel; className?: string }) => {
+  if (!colorLabel) {
+    return null;
+  }
+  
   return (
-    <Card className="file-item overflow-hidden">
-      <div 
-        className="h-36 flex items-center justify-center bg-muted p-4"
-        onClick={onDownload}
-      >
-        <div className="text-4xl">{getFileIcon(file.type)}</div>
-      </div>
-      <CardContent className="p-4">
-        <h3 className="font-medium truncate" title={file.name}>
-          {file.name}
-        </h3>
-        <p className="text-xs text-muted-foreground mt-1">
-          {formatFileSize(file.size)}
-        </p>
-      </CardContent>
-      <CardFooter className="flex justify-between p-4 pt-0">
-        <Button variant="ghost" size="icon" onClick={onDownload}>
-          <Download className="h-4 w-4" />
-        </Button>
-        <Button variant="ghost" size="icon" onClick={onDelete}>
-          <Trash2 className="h-4 w-4" />
-        </Button>
-      </CardFooter>
-    </Card>
+    <span
+      className={cn("inline-block h-2.5 w-2.5 shrink-0 rounded-full", COLOR_LABEL_CLASSES[colorLabel], className)}
+      title={`${colorLabel[0].toUpperCase()}${colorLabel.slice(1)} label`}
+    />
+  );
+};
+
+const StarButton = ({ starred, onToggleStar, className }: { starred?: boolean; onToggleStar: () => void; className?: string }) => (
+  <Button
+    variant="ghost"
+    size="icon"
+    className={className}
+    title={starred ? 'Unstar' : 'Star'}
+    aria-pressed={starred ?? false}
+    onClick={(e) => {
+      e.stopPropagation();
+      onToggleStar();
+    }}
+  >
+    <Star className={cn("h-4 w-4", starred && "fill-yellow-400 text-yellow-500")} />
+  </Button>
+);
+
+const FileMenu = ({ file, onRename, onEditTags, onSetColorLabel }: Pick<FileItemProps, 'file' | 'onRename' | 'onEditTags' | 'onSetColorLabel'>) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="ghost" size="icon" title="More actions">
+        <MoreVertical className="h-4 w-4" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuItem onClick={onRename}>
+        <Pencil className="h-4 w-4 mr-2" />
+        Rename
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={onEditTags}>
+        <Tag className="h-4 w-4 mr-2" />
+        Edit tags…
+      </DropdownMenuItem>
+      <DropdownMenuSub>
+        <DropdownMenuSubTrigger>
+          <Palette className="h-4 w-4 mr-2" />
+          Color label
+        </DropdownMenuSubTrigger>
+        <DropdownMenuSubContent>
+          {COLOR_LABELS.map(colorLabel => (
+            <DropdownMenuItem key={colorLabel} onClick={() => onSetColorLabel(colorLabel)}>
+              <ColorDot colorLabel={colorLabel} className="mr-2" />
+              <span className={cn("capitalize", file.colorLabel === colorLabel && "font-medium")}>{colorLabel}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem disabled={!file.colorLabel} onClick={() => onSetColorLabel(null)}>
+            None
+          </DropdownMenuItem>
+        </DropdownMenuSubContent>
+      </DropdownMenuSub>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+// Right-click menu gathering every action on a file
+const FileContextMenu = ({ children, ...props }: FileItemProps & { children: React.ReactNode }) => (
+  <ContextMenu>
+    <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+    <ContextMenuContent className="w-52">
+      <ContextMenuItem onClick={props.onPreview}>
+        <Eye className="h-4 w-4 mr-2" />
+        Open
+        <ContextMenuShortcut>Enter</ContextMenuShortcut>
+      </ContextMenuItem>
+      <ContextMenuItem onClick={props.onDownload}>
+        <Download className="h-4 w-4 mr-2" />
+        Download
+      </ContextMenuItem>
+      <ContextMenuItem onClick={props.onRename}>
+        <Pencil className="h-4 w-4 mr-2" />
+        Rename
+        <ContextMenuShortcut>F2</ContextMenuShortcut>
+      </ContextMenuItem>
+      <ContextMenuItem onClick={props.onMove}>
+        <FolderInput className="h-4 w-4 mr-2" />
+        Move…
+      </ContextMenuItem>
+      <ContextMenuSeparator />
+      <ContextMenuItem onClick={props.onToggleStar}>
+        <Star className="h-4 w-4 mr-2" />
+        {props.file.starred ? 'Unstar' : 'Star'}
+      </ContextMenuItem>
+      <ContextMenuItem onClick={props.onEditTags}>
+        <Tag className="h-4 w-4 mr-2" />
+        Edit tags…
+      </ContextMenuItem>
+      <ContextMenuItem onClick={props.onShareLink}>
+        <Link className="h-4 w-4 mr-2" />
+        Share link
+      </ContextMenuItem>
+      <ContextMenuItem onClick={props.onShareWithUser}>
+        <Users className="h-4 w-4 mr-2" />
+        Share with people
+      </ContextMenuItem>
+      <ContextMenuItem onClick={props.onShowHistory}>
+        <History className="h-4 w-4 mr-2" />
+        Version history
+      </ContextMenuItem>
+      <ContextMenuItem onClick={props.onShowProperties}>
+        <Info className="h-4 w-4 mr-2" />
+        Properties
+      </ContextMenuItem>
+      <ContextMenuSeparator />
+      <ContextMenuItem onClick={props.onDelete} className="text-destructive">
+        <Trash2 className="h-4 w-4 mr-2" />
+        Move to trash
+        <ContextMenuShortcut>Del</ContextMenuShortcut>
+      </ContextMenuItem>
+    </ContextMenuContent>
+  </ContextMenu>
+);
+
+// The file's name with its color label, or the rename field while it is being renamed
+const FileName = ({ file, isRenaming, onRenameSubmit, onRenameCancel }: Pick<FileItemProps, 'file' | 'isRenaming' | 'onRenameSubmit' | 'onRenameCancel'>) => {
+  if (isRenaming) {
+    return (
+      <InlineNameEditor
+        initialName={file.name}
+        validate={validateFileName}
+        getWarning={(name) => getExtensionChangeWarning(file.name, name)}
+        selectBaseName
+        onSubmit={onRenameSubmit}
+        onCancel={onRenameCancel}
+      />
+    );
+  }
+  
+  return (
+    <div className="flex items-center gap-1.5 min-w-0">
+      <ColorDot colorLabel={file.colorLabel} />
+      <h3 className="font-medium truncate" title={file.name}>
+        {file.name}
+      </h3>
+    </div>
   );
 };
 
-const FileRow = ({ file, onDownload, onDelete }: FileItemProps) => {
+const SelectCheckbox = ({ file, selected, onToggleSelect }: Pick<FileItemProps, 'file' | 'selected' | 'onToggleSelect'>) => (
+  <Checkbox
+    checked={selected}
+    aria-label={`Select ${file.name}`}
+    className="bg-background"
+    onClick={(e) => {
+      // Handled here rather than in onCheckedChange, which does not report the shift key
+      e.preventDefault();
+      e.stopPropagation();
+      onToggleSelect(e.shiftKey);
+    }}
+  />
+);
+
+const FileTags = ({ tags }: { tags?: string[] }) => {
+  if (!tags || tags.length === 0) {
+    return null;
+  }
+  
   return (
-    <div className="file-item flex items-center justify-between p-3 bg-card rounded-md">
-      <div className="flex items-center space-x-3" onClick={onDownload} style={{cursor: 'pointer'}}>
-        <div className="text-2xl">{getFileIcon(file.type)}</div>
-        <div className="flex-1 min-w-0">
-          <h3 className="font-medium truncate" title={file.name}>
-            {file.name}
-          </h3>
-          <p className="text-xs text-muted-foreground">
+    <div className="flex flex-wrap gap-1 mt-2">
+      {tags.map(tag => (
+        <Badge key={tag} variant="secondary" className="text-xs font-normal">{tag}</Badge>
+      ))}
+    </div>
+  );
+};
+
+// Content around a search match, with the matching words marked
+const FileSnippet = ({ parts }: { parts?: SnippetPart[] }) => {
+  if (!parts) {
+    return null;
+  }
+  
+  return (
+    <p className="text-xs text-muted-foreground mt-1 line-clamp-2 break-words">
+      {parts.map((part, index) => part.highlight ? (
+        <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 text-foreground rounded-sm px-0.5">{part.text}</mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      ))}
+    </p>
+  );
+};
+
+const FileShareMenu = ({ onShareLink, onShareWithUser }: Pick<FileItemProps, 'onShareLink' | 'onShareWithUser'>) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="ghost" size="icon" title="Share">
+        <Share2 className="h-4 w-4" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuItem onClick={onShareLink}>
+        <Link className="h-4 w-4 mr-2" />
+        Share link
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={onShareWithUser}>
+        <Users className="h-4 w-4 mr-2" />
+        Share with people
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+const FileCard = (props: FileItemProps) => {
+  const { file, showLocation, snippet, selected, onToggleSelect, onPreview, onDownload, onShowHistory, onToggleStar, onDelete } = props;
+  
+  return (
+    <FileContextMenu {...props}>
+      <Card
+        className={cn("file-item overflow-hidden group", FOCUS_RING, selected && "ring-2 ring-primary")}
+        draggable={!props.isRenaming}
+        onDragStart={props.onDragStart}
+        {...props.navigation}
+      >
+        <div 
+          className="relative h-36 flex items-center justify-center bg-muted overflow-hidden cursor-pointer"
+          onClick={onPreview}
+        >
+          <FileThumbnail file={file} />
+          <div className={cn("absolute top-2 left-2", !selected && "opacity-0 group-hover:opacity-100 focus-within:opacity-100")}>
+            <SelectCheckbox file={file} selected={selected} onToggleSelect={onToggleSelect} />
+          </div>
+          <div className={cn("absolute top-1 right-1", !file.starred && "opacity-0 group-hover:opacity-100 focus-within:opacity-100")}>
+            <StarButton starred={file.starred} onToggleStar={onToggleStar} className="h-8 w-8 bg-background/80 hover:bg-background" />
+          </div>
+        </div>
+        <CardContent className="p-4">
+          <div onDoubleClick={props.onRename}>
+            <FileName {...props} />
+          </div>
+          <p className="text-xs text-muted-foreground mt-1 truncate">
             {formatFileSize(file.size)}
+            {showLocation && ` · ${formatLocation(normalizePath(file.path))}`}
           </p>
-        </div>
-      </div>
-      <div className="flex space-x-1">
-        <Button variant="ghost" size="icon" onClick={onDownload}>
-          <Download className="h-4 w-4" />
-        </Button>
-        <Button variant="ghost" size="icon" onClick={onDelete}>
-          <Trash2 className="h-4 w-4" />
-        </Button>
-      </div>
-    </div>
+          <FileSnippet parts={snippet} />
+          <FileTags tags={file.tags} />
+        </CardContent>
+        <CardFooter className="flex justify-between p-4 pt-0">
+          <Button variant="ghost" size="icon" onClick={onDownload}>
+            <Download className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" title="Version history" onClick={onShowHistory}>
+            <History className="h-4 w-4" />
+          </Button>
+          <FileShareMenu {...props} />
+          <FileMenu {...props} />
+          <Button variant="ghost" size="icon" onClick={onDelete}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </CardFooter>
+      </Card>
+    </FileContextMenu>
+  );
+};
+
+const FileRow = (props: FileItemProps) => {
+  const { file, showLocation, snippet, selected, onToggleSelect, onPreview, onDownload, onShowHistory, onToggleStar, onDelete } = props;
+  
+  return (
+    <FileContextMenu {...props}>
+      <TableRow
+        className={FOCUS_RING}
+        data-state={selected ? 'selected' : undefined}
+        draggable={!props.isRenaming}
+        onDragStart={props.onDragStart}
+        {...props.navigation}
+      >
+        <TableCell>
+          <SelectCheckbox file={file} selected={selected} onToggleSelect={onToggleSelect} />
+        </TableCell>
+        <TableCell className="cursor-pointer" onClick={onPreview}>
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="text-2xl">{getFileIcon(file.type)}</div>
+            <div className="min-w-0 flex-1">
+              <FileName {...props} />
+              {showLocation && (
+                <p className="text-xs text-muted-foreground truncate">{formatLocation(normalizePath(file.path))}</p>
+              )}
+              <FileSnippet parts={snippet} />
+              <FileTags tags={file.tags} />
+            </div>
+          </div>
+        </TableCell>
+        <TableCell className="hidden sm:table-cell whitespace-nowrap">{formatFileSize(file.size)}</TableCell>
+        <TableCell className="hidden md:table-cell text-muted-foreground">{getTypeLabel(file)}</TableCell>
+        <TableCell className="hidden md:table-cell whitespace-nowrap text-muted-foreground">
+          {new Date(file.lastModified).toLocaleDateString()}
+        </TableCell>
+        <TableCell>
+          <div className="flex justify-end space-x-1">
+            <StarButton starred={file.starred} onToggleStar={onToggleStar} />
+            <Button variant="ghost" size="icon" onClick={onDownload}>
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" title="Version history" onClick={onShowHistory}>
+              <History className="h-4 w-4" />
+            </Button>
+            <FileShareMenu {...props} />
+            <FileMenu {...props} />
+            <Button variant="ghost" size="icon" onClick={onDelete}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </TableCell>
+      </TableRow>
+    </FileContextMenu>
   );
 };
 
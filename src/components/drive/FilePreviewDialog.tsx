@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import hljs from 'highlight.js/lib/common';
+import 'highlight.js/styles/github-dark.css';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { FileMetadata, getCurrentUser, downloadFile, formatFileSize, getFileIcon } from '@/utils/storageUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import { PreviewKind, MAX_TEXT_PREVIEW_BYTES, getPreviewKind, getCodeLanguage } from '@/utils/previewUtils';
+import { ChevronLeft, ChevronRight, Download, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+
+interface FilePreviewDialogProps {
+  files: FileMetadata[]; // the list being browsed, for next/previous navigation
+  index: number | null; // the file being previewed, or null when closed
+  onIndexChange: (index: number | null) => void;
+  onDownload: (file: FileMetadata) => void;
+}
+
+type PreviewContent =
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; kind: PreviewKind; url: string; text?: string; truncated?: boolean };
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+
+const FilePreviewDialog = ({ files, index, onIndexChange, onDownload }: FilePreviewDialogProps) => {
+  const backend = useStorageBackend();
+  const [content, setContent] = useState<PreviewContent>({ status: 'loading' });
+  const [zoom, setZoom] = useState(1);
+
+  const file = index !== null ? files[index] ?? null : null;
+  const kind = file ? getPreviewKind(file) : null;
+  const hasPrevious = index !== null && index > 0;
+  const hasNext = index !== null && index < files.length - 1;
+
+  useEffect(() => {
+    if (!file || !kind) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+
+    setContent({ status: 'loading' });
+    setZoom(1);
+
+    const load = async () => {
+      const user = getCurrentUser();
+      if (!user) {
+        setContent({ status: 'error', message: 'Authentication required' });
+        return;
+      }
+
+      try {
+        const blob = await downloadFile(backend, user, file.id);
+        if (cancelled) return;
+
+        if (!blob) {
+          setContent({ status: 'error', message: 'File not found' });
+          return;
+        }
+
+        if (kind === 'text') {
+          const text = await blob.slice(0, MAX_TEXT_PREVIEW_BYTES).text();
+          if (cancelled) return;
+          setContent({ status: 'ready', kind, url: '', text, truncated: blob.size > MAX_TEXT_PREVIEW_BYTES });
+          return;
+        }
+
+        // Legacy plaintext blobs may be stored untyped; the viewers need the original MIME type
+        url = URL.createObjectURL(new Blob([blob], { type: file.type }));
+        setContent({ status: 'ready', kind, url });
+      } catch (error) {
+        if (!cancelled) {
+          setContent({ status: 'error', message: describeStorageError(error) });
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [backend, file, kind]);
+
+  // Arrow keys step through the list while the dialog is open
+  useEffect(() => {
+    if (index === null) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft' && hasPrevious) {
+        onIndexChange(index - 1);
+      } else if (e.key === 'ArrowRight' && hasNext) {
+        onIndexChange(index + 1);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, hasPrevious, hasNext, onIndexChange]);
+
+  const renderContent = () => {
+    if (!file) return null;
+
+    if (!kind) {
+      return (
+        <div className="flex flex-col items-center justify-center gap-3 py-16 text-center">
+          <div className="text-5xl">{getFileIcon(file.type)}</div>
+          <p className="text-muted-foreground">No preview is available for this file type</p>
+          <Button onClick={() => onDownload(file)} className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            Download
+          </Button>
+        </div>
+      );
+    }
+
+    if (content.status === 'loading') {
+      return <p className="py-16 text-center text-muted-foreground">Loading preview...</p>;
+    }
+
+    if (content.status === 'error') {
+      return <p className="py-16 text-center text-destructive">{content.message}</p>;
+    }
+
+    switch (content.kind) {
+      case 'image':
+        return (
+          <div className="h-[65vh] overflow-auto bg-muted rounded-md">
+            <div className="min-h-full min-w-full flex items-center justify-center p-4">
+              <img
+                src={content.url}
+                alt={file.name}
+                className="max-h-[60vh] max-w-full object-contain transition-transform origin-center"
+                style={{ transform: `scale(${zoom})` }}
+              />
+            </div>
+          </div>
+        );
+      case 'video':
+        return <video src={content.url} controls className="max-h-[65vh] w-full rounded-md bg-black" />;
+      case 'audio':
+        return (
+          <div className="flex flex-col items-center gap-4 py-12">
+            <div className="text-5xl">{getFileIcon(file.type)}</div>
+            <audio src={content.url} controls className="w-full" />
+          </div>
+        );
+      case 'pdf':
+        return <iframe src={content.url} title={file.name} className="h-[65vh] w-full rounded-md border" />;
+      case 'text':
+        return <TextPreview fileName={file.name} text={content.text ?? ''} truncated={content.truncated ?? false} />;
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onIndexChange(null)}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6" title={file?.name}>{file?.name}</DialogTitle>
+          <DialogDescription>
+            {file && `${formatFileSize(file.size)} · ${index! + 1} of ${files.length}`}
+          </DialogDescription>
+        </DialogHeader>
+        {renderContent()}
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={!hasPrevious}
+            onClick={() => onIndexChange(index! - 1)}
+            title="Previous"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex items-center gap-1">
+            {kind === 'image' && content.status === 'ready' && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={zoom <= MIN_ZOOM}
+                  onClick={() => setZoom(Math.max(MIN_ZOOM, zoom / 1.25))}
+                  title="Zoom out"
+                >
+                  <ZoomOut className="h-4 w-4" />
+                </Button>
+                <span className="w-14 text-center text-sm text-muted-foreground">{Math.round(zoom * 100)}%</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={zoom >= MAX_ZOOM}
+                  onClick={() => setZoom(Math.min(MAX_ZOOM, zoom * 1.25))}
+                  title="Zoom in"
+                >
+                  <ZoomIn className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setZoom(1)} title="Reset zoom">
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            {file && (
+              <Button variant="ghost" size="icon" onClick={() => onDownload(file)} title="Download">
+                <Download className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={!hasNext}
+            onClick={() => onIndexChange(index! + 1)}
+            title="Next"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface TextPreviewProps {
+  fileName: string;
+  text: string;
+  truncated: boolean;
+}
+
+const TextPreview = ({ fileName, text, truncated }: TextPreviewProps) => {
+  const language = getCodeLanguage(fileName);
+
+  return (
+    <div className="space-y-2">
+      <pre className="h-[65vh] overflow-auto rounded-md bg-[#0d1117] p-4 text-sm">
+        {language ? (
+          // highlight.js escapes the source, so its output is safe to inject
+          <code
+            className="hljs !bg-transparent !p-0"
+            dangerouslySetInnerHTML={{ __html: hljs.highlight(text, { language }).value }}
+          />
+        ) : (
+          <code className="hljs !bg-transparent !p-0">{text}</code>
+        )}
+      </pre>
+      {truncated && (
+        <p className="text-xs text-muted-foreground">
+          Only the first {formatFileSize(MAX_TEXT_PREVIEW_BYTES)} are shown. Download the file to see all of it.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FilePreviewDialog;
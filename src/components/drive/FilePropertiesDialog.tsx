@@ -0,0 +1,79 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileMetadata, formatFileSize, getStoredSize, getFileIcon } from '@/utils/storageUtils';
+import { getTypeLabel } from '@/utils/browseUtils';
+import { ROOT_PATH, normalizePath } from '@/utils/pathUtils';
+
+interface FilePropertiesDialogProps {
+  file: FileMetadata | null; // the file shown, or null when closed
+  onOpenChange: (open: boolean) => void;
+}
+
+const Property = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="grid grid-cols-3 gap-2 py-2 text-sm">
+    <dt className="text-muted-foreground">{label}</dt>
+    <dd className="col-span-2 break-all">{children}</dd>
+  </div>
+);
+
+const FilePropertiesDialog = ({ file, onOpenChange }: FilePropertiesDialogProps) => {
+  const path = file ? normalizePath(file.path) : ROOT_PATH;
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 pr-6">
+            <span className="text-2xl">{file && getFileIcon(file.type)}</span>
+            <span className="truncate">{file?.name}</span>
+          </DialogTitle>
+          <DialogDescription>Properties</DialogDescription>
+        </DialogHeader>
+        {file && (
+          <dl className="divide-y">
+            <Property label="Type">
+              {getTypeLabel(file)}
+              {file.type && <span className="text-muted-foreground"> ({file.type})</span>}
+            </Property>
+            <Property label="Size">{formatFileSize(file.size)} ({file.size.toLocaleString()} bytes)</Property>
+            <Property label="Storage used">{formatFileSize(getStoredSize(file))}</Property>
+            <Property label="Location">{path === ROOT_PATH ? 'My Drive' : `My Drive${path}`}</Property>
+            <Property label="Modified">{new Date(file.lastModified).toLocaleString()}</Property>
+            <Property label="Versions">
+              {file.versions?.length ? `${file.versions.length} earlier ${file.versions.length === 1 ? 'version' : 'versions'}` : 'None'}
+            </Property>
+            <Property label="Tags">
+              {file.tags?.length ? (
+                <span className="flex flex-wrap gap-1">
+                  {file.tags.map(tag => (
+                    <Badge key={tag} variant="secondary" className="font-normal">{tag}</Badge>
+                  ))}
+                </span>
+              ) : 'None'}
+            </Property>
+            <Property label="Label">
+              <span className="capitalize">{file.colorLabel ?? 'None'}</span>
+              {file.starred && ' · Starred'}
+            </Property>
+            <Property label="Encryption">
+              {file.encryption
+                ? `${file.encryption.algorithm}, ${formatFileSize(file.encryption.segmentSize)} segments`
+                : 'Not encrypted yet'}
+            </Property>
+            <Property label="ID">
+              <code className="text-xs">{file.id}</code>
+            </Property>
+          </dl>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FilePropertiesDialog;
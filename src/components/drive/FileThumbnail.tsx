@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { FileMetadata, getCurrentUser, getFileIcon } from '@/utils/storageUtils';
+import { getThumbnail } from '@/utils/thumbnailUtils';
+
+interface FileThumbnailProps {
+  file: FileMetadata;
+}
+
+// Shows a file's thumbnail once the card scrolls into view, falling back to its icon
+const FileThumbnail = ({ file }: FileThumbnailProps) => {
+  const backend = useStorageBackend();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || !file.thumbnail) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [file.thumbnail]);
+
+  useEffect(() => {
+    if (!file.thumbnail) {
+      setUrl(null);
+      return;
+    }
+
+    const user = getCurrentUser();
+    if (!isVisible || !user) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    getThumbnail(backend, user, file)
+      .then(blob => {
+        if (blob && !cancelled) {
+          objectUrl = URL.createObjectURL(blob);
+          setUrl(objectUrl);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+      // The image stays on screen until its replacement has loaded
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [backend, file, isVisible]);
+
+  return (
+    <div ref={containerRef} className="h-full w-full flex items-center justify-center">
+      {url ? (
+        <img src={url} alt={file.name} className="h-full w-full object-cover" />
+      ) : (
+        <div className="text-4xl">{getFileIcon(file.type)}</div>
+      )}
+    </div>
+  );
+};
+
+export default FileThumbnail;
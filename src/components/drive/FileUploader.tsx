@@ -1,14 +1,30 @@
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { uploadFile, getCurrentUser, formatFileSize } from '@/utils/storageUtils';
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { getCurrentUser, getUserStorage, findFileByName, getUniqueFileName, formatFileSize } from '@/utils/storageUtils';
+import {
+  UploadRecord,
+  UploadResult,
+  createUpload,
+  runUpload,
+  cancelUpload,
+  getPendingUploads,
+  getUploadProgress
+} from '@/utils/uploadUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import { UploadConflictResolution } from '@/utils/versionUtils';
+import { ArchiveProgress, isZipFile, importZip } from '@/utils/archiveUtils';
+import UploadConflictDialog from './UploadConflictDialog';
+import ZipImportDialog, { ZipImportChoice } from './ZipImportDialog';
 import { useDropzone } from 'react-dropzone';
-import { Upload, Activity, Download, Trash2 } from 'lucide-react';
+import { Upload, Activity, Download, Trash2, Pause, Play, X, FileArchive } from 'lucide-react';
 
 interface FileUploaderProps {
+  folderPath: string;
   onUploadComplete: () => void;
 }
 
@@ -21,116 +37,244 @@ interface NetworkMetrics {
   progress: number;
 }
 
+type UploadStatus = 'uploading' | 'paused' | 'completed' | 'failed';
+
+interface PendingConflict {
+  fileName: string;
+  hasMoreConflicts: boolean;
+  resolve: (choice: { resolution: UploadConflictResolution; applyToAll: boolean }) => void;
+}
+
+interface PendingZipImport {
+  fileName: string;
+  resolve: (choice: ZipImportChoice) => void;
+}
+
+interface Extraction extends ArchiveProgress {
+  fileName: string;
+}
+
 interface FileUploadSession {
   id: string;
   fileName: string;
   fileSize: number;
   uploadTime: string;
   metrics: NetworkMetrics[];
-  completed: boolean;
+  status: UploadStatus;
   progress: number;
   currentSpeed: number;
-  actuallyUploaded: boolean;
+  errorMessage?: string;
 }
 
-const FileUploader = ({ onUploadComplete }: FileUploaderProps) => {
+const calculateNetworkMetrics = (bytesTransferred: number, totalBytes: number, lastTime: number, lastBytes: number): NetworkMetrics => {
+  const now = Date.now();
+  const elapsed = (now - lastTime) / 1000;
+  const bytesDelta = bytesTransferred - lastBytes;
+  const uploadSpeed = elapsed > 0 ? (bytesDelta / 1024) / elapsed : 0;
+  const packetsEstimate = Math.ceil(bytesTransferred / 1500);
+  const progress = totalBytes > 0 ? (bytesTransferred / totalBytes) * 100 : 100;
+
+  return {
+    timestamp: now,
+    uploadSpeed,
+    packetsEstimate,
+    bytesTransferred,
+    totalBytes,
+    progress
+  };
+};
+
+const FileUploader = ({ folderPath, onUploadComplete }: FileUploaderProps) => {
   const { toast } = useToast();
+  const backend = useStorageBackend();
   const [isUploading, setIsUploading] = useState(false);
   const [uploadSessions, setUploadSessions] = useState<FileUploadSession[]>([]);
+  const [pendingConflict, setPendingConflict] = useState<PendingConflict | null>(null);
+  const [pendingZipImport, setPendingZipImport] = useState<PendingZipImport | null>(null);
+  const [extraction, setExtraction] = useState<Extraction | null>(null);
+  const recordsRef = useRef(new Map<string, UploadRecord>());
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const runningRef = useRef(new Map<string, Promise<UploadResult | 'failed'>>());
 
-  const calculateNetworkMetrics = (bytesTransferred: number, totalBytes: number, startTime: number, lastBytes: number): NetworkMetrics => {
-    const now = Date.now();
-    const elapsed = (now - startTime) / 1000;
-    const bytesDelta = bytesTransferred - lastBytes;
-    const uploadSpeed = elapsed > 0 ? (bytesDelta / 1024) / elapsed : 0;
-    const packetsEstimate = Math.ceil(bytesTransferred / 1500);
-    const progress = (bytesTransferred / totalBytes) * 100;
-
-    return {
-      timestamp: now,
-      uploadSpeed,
-      packetsEstimate,
-      bytesTransferred,
-      totalBytes,
-      progress
-    };
-  };
+  const updateSession = useCallback((sessionId: string, changes: Partial<FileUploadSession>) => {
+    setUploadSessions(prev => 
+      prev.map(session => 
+        session.id === sessionId ? { ...session, ...changes } : session
+      )
+    );
+  }, []);
 
-  const simulateFileUpload = async (file: File): Promise<boolean> => {
-    const sessionId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const startTime = Date.now();
-    let lastBytes = 0;
-    const totalBytes = file.size;
-    const chunkSize = Math.max(1024, Math.floor(totalBytes / 100));
-
-    const newSession: FileUploadSession = {
-      id: sessionId,
-      fileName: file.name,
-      fileSize: totalBytes,
-      uploadTime: new Date().toLocaleString(),
+  const addSession = useCallback((record: UploadRecord, status: UploadStatus) => {
+    const { bytesCommitted, totalBytes } = getUploadProgress(record);
+    recordsRef.current.set(record.id, record);
+
+    setUploadSessions(prev => [...prev, {
+      id: record.id,
+      fileName: record.file.name,
+      fileSize: record.file.size,
+      uploadTime: new Date(record.createdAt).toLocaleString(),
       metrics: [],
-      completed: false,
-      progress: 0,
-      currentSpeed: 0,
-      actuallyUploaded: false
+      status,
+      progress: totalBytes > 0 ? (bytesCommitted / totalBytes) * 100 : 0,
+      currentSpeed: 0
+    }]);
+  }, []);
+
+  // Write the remaining chunks of an upload, reporting progress from the bytes actually persisted
+  const runSession = useCallback((record: UploadRecord, metricsHistory: NetworkMetrics[] = []): Promise<UploadResult | 'failed'> => {
+    const run = async (): Promise<UploadResult | 'failed'> => {
+      const user = getCurrentUser();
+      if (!user) return 'failed';
+
+      const controller = new AbortController();
+      controllersRef.current.set(record.id, controller);
+
+      let lastBytes = getUploadProgress(record).bytesCommitted;
+      let lastTime = Date.now();
+      updateSession(record.id, { status: 'uploading', errorMessage: undefined });
+
+      try {
+        const result = await runUpload(backend, user, record, {
+          signal: controller.signal,
+          onProgress: ({ bytesCommitted, totalBytes, committedChunks }) => {
+            if (bytesCommitted === lastBytes && committedChunks > 0) return;
+
+            const networkMetrics = calculateNetworkMetrics(bytesCommitted, totalBytes, lastTime, lastBytes);
+            metricsHistory.push(networkMetrics);
+            lastBytes = bytesCommitted;
+            lastTime = networkMetrics.timestamp;
+
+            updateSession(record.id, {
+              metrics: [...metricsHistory],
+              progress: networkMetrics.progress,
+              currentSpeed: networkMetrics.uploadSpeed
+            });
+          }
+        });
+
+        if (result === 'completed') {
+          recordsRef.current.delete(record.id);
+          updateSession(record.id, { status: 'completed', progress: 100 });
+        } else {
+          updateSession(record.id, { status: 'paused', currentSpeed: 0 });
+        }
+        return result;
+      } catch (error) {
+        updateSession(record.id, { status: 'failed', currentSpeed: 0, errorMessage: describeStorageError(error) });
+        return 'failed';
+      } finally {
+        controllersRef.current.delete(record.id);
+        runningRef.current.delete(record.id);
+      }
     };
 
-    setUploadSessions(prev => [...prev, newSession]);
+    const running = run();
+    runningRef.current.set(record.id, running);
+    return running;
+  }, [backend, updateSession]);
 
-    return new Promise((resolve) => {
-      let bytesTransferred = 0;
-      const metricsHistory: NetworkMetrics[] = [];
+  // Pick up uploads that were interrupted by a reload, from their last committed chunk
+  useEffect(() => {
+    const resumePendingUploads = async () => {
+      const user = getCurrentUser();
+      if (!user) return;
 
-      const uploadChunk = async () => {
-        if (bytesTransferred >= totalBytes) {
-          // Actually upload the file to storage when simulation completes
-          const user = getCurrentUser();
-          const success = user ? await uploadFile(user, file) : false;
-          
-          setUploadSessions(prev => 
-            prev.map(session => 
-              session.id === sessionId 
-                ? { 
-                    ...session, 
-                    metrics: metricsHistory, 
-                    completed: true, 
-                    progress: 100,
-                    actuallyUploaded: success
-                  }
-                : session
-            )
-          );
-          
-          resolve(success);
-          return;
+      let pending: UploadRecord[];
+      try {
+        pending = (await getPendingUploads(user)).filter(record => !recordsRef.current.has(record.id));
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: `Interrupted uploads could not be resumed: ${describeStorageError(error)}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (pending.length === 0) return;
+
+      pending.forEach(record => addSession(record, 'paused'));
+
+      let resumedCount = 0;
+      for (const record of pending) {
+        if ((await runSession(record)) === 'completed') {
+          resumedCount++;
         }
+      }
 
-        bytesTransferred = Math.min(bytesTransferred + chunkSize, totalBytes);
-        const networkMetrics = calculateNetworkMetrics(bytesTransferred, totalBytes, startTime, lastBytes);
-        
-        metricsHistory.push(networkMetrics);
-        lastBytes = bytesTransferred;
-
-        setUploadSessions(prev => 
-          prev.map(session => 
-            session.id === sessionId 
-              ? { 
-                  ...session, 
-                  metrics: [...metricsHistory],
-                  progress: networkMetrics.progress,
-                  currentSpeed: networkMetrics.uploadSpeed
-                }
-              : session
-          )
-        );
-
-        setTimeout(uploadChunk, 50 + Math.random() * 100);
-      };
-
-      uploadChunk();
+      if (resumedCount > 0) {
+        toast({
+          title: "Upload Resumed",
+          description: `Finished ${resumedCount} interrupted upload${resumedCount !== 1 ? 's' : ''}`,
+        });
+        onUploadComplete();
+      }
+    };
+
+    // Runs once per backend: the callbacks it uses are stable, and later uploads are driven by
+    // onDrop and the session controls
+    resumePendingUploads();
+  }, [backend, toast, onUploadComplete, addSession, runSession]);
+
+  // Ask what to do with an upload whose name is already taken in the folder
+  const askConflictResolution = useCallback((fileName: string, hasMoreConflicts: boolean) => {
+    return new Promise<{ resolution: UploadConflictResolution; applyToAll: boolean }>(resolve => {
+      setPendingConflict({ fileName, hasMoreConflicts, resolve });
+    });
+  }, []);
+
+  const resolveConflict = (resolution: UploadConflictResolution, applyToAll: boolean) => {
+    pendingConflict?.resolve({ resolution, applyToAll });
+    setPendingConflict(null);
+  };
+
+  const askZipImport = useCallback((fileName: string) => {
+    return new Promise<ZipImportChoice>(resolve => {
+      setPendingZipImport({ fileName, resolve });
     });
+  }, []);
+
+  const resolveZipImport = (choice: ZipImportChoice) => {
+    pendingZipImport?.resolve(choice);
+    setPendingZipImport(null);
   };
 
+  // Unpack an archive into a new folder inside the current folder
+  const extractArchive = useCallback(async (archive: File) => {
+    const user = getCurrentUser();
+    if (!user) return;
+
+    setExtraction({ fileName: archive.name, done: 0, total: 0 });
+
+    try {
+      const result = await importZip(backend, user, archive, folderPath, (progress) => {
+        setExtraction({ fileName: archive.name, ...progress });
+      });
+
+      if (result) {
+        toast({
+          title: "Archive Extracted",
+          description: `${result.imported} file${result.imported !== 1 ? 's' : ''} extracted from ${archive.name}${result.skipped > 0 ? `, ${result.skipped} skipped` : ''}`,
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: "The current folder no longer exists",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Extraction Failed",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setExtraction(null);
+    }
+
+    onUploadComplete();
+  }, [backend, folderPath, toast, onUploadComplete]);
+
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     const user = getCurrentUser();
     
@@ -147,14 +291,69 @@ const FileUploader = ({ onUploadComplete }: FileUploaderProps) => {
     
     try {
       let successCount = 0;
+      const failures = new Set<string>();
       let failCount = 0;
+      let skipCount = 0;
+      let resolutionForAll: UploadConflictResolution | null = null;
+      
+      const initialStorage = await getUserStorage(backend, user);
+      const conflictingNames = new Set(
+        acceptedFiles.map(file => file.name).filter(name => findFileByName(initialStorage, folderPath, name))
+      );
       
-      for (const file of acceptedFiles) {
-        const success = await simulateFileUpload(file);
+      for (const [index, droppedFile] of acceptedFiles.entries()) {
+        let file = droppedFile;
+        let replaceFileId: string | undefined;
+        let record: UploadRecord;
+        
+        if (isZipFile(file) && (await askZipImport(file.name)) === 'extract') {
+          await extractArchive(file);
+          continue;
+        }
+        
+        try {
+          // Re-read for every file so earlier uploads in this batch are taken into account
+          const storage = await getUserStorage(backend, user);
+          const existingFile = findFileByName(storage, folderPath, file.name);
+          
+          if (existingFile) {
+            let resolution = resolutionForAll;
+            
+            if (!resolution) {
+              const hasMoreConflicts = acceptedFiles.slice(index + 1).some(f => conflictingNames.has(f.name));
+              const choice = await askConflictResolution(file.name, hasMoreConflicts);
+              resolution = choice.resolution;
+              if (choice.applyToAll) {
+                resolutionForAll = choice.resolution;
+              }
+            }
+            
+            if (resolution === 'skip') {
+              skipCount++;
+              continue;
+            } else if (resolution === 'replace') {
+              replaceFileId = existingFile.id;
+            } else {
+              file = new File([file], getUniqueFileName(storage, folderPath, file.name), {
+                type: file.type,
+                lastModified: file.lastModified,
+              });
+            }
+          }
+          
+          record = await createUpload(backend, user, file, folderPath, replaceFileId);
+        } catch (error) {
+          failures.add(describeStorageError(error));
+          failCount++;
+          continue;
+        }
         
-        if (success) {
+        addSession(record, 'uploading');
+        const result = await runSession(record);
+        
+        if (result === 'completed') {
           successCount++;
-        } else {
+        } else if (result === 'failed') {
           failCount++;
         }
       }
@@ -162,7 +361,7 @@ const FileUploader = ({ onUploadComplete }: FileUploaderProps) => {
       if (successCount > 0) {
         toast({
           title: "Upload Complete",
-          description: `Successfully uploaded ${successCount} file${successCount !== 1 ? 's' : ''}${failCount > 0 ? `, ${failCount} failed` : ''}`,
+          description: `Successfully uploaded ${successCount} file${successCount !== 1 ? 's' : ''}${failCount > 0 ? `, ${failCount} failed` : ''}${skipCount > 0 ? `, ${skipCount} skipped` : ''}`,
         });
         
         // Refresh the storage display
@@ -170,7 +369,9 @@ const FileUploader = ({ onUploadComplete }: FileUploaderProps) => {
       } else if (failCount > 0) {
         toast({
           title: "Upload Failed",
-          description: "Not enough storage space available",
+          description: failures.size > 0
+            ? Array.from(failures).join('. ')
+            : `Failed to upload ${failCount} file${failCount !== 1 ? 's' : ''}`,
           variant: "destructive",
         });
       }
@@ -183,7 +384,60 @@ const FileUploader = ({ onUploadComplete }: FileUploaderProps) => {
     } finally {
       setIsUploading(false);
     }
-  }, [toast, onUploadComplete]);
+  }, [toast, onUploadComplete, backend, folderPath, askZipImport, extractArchive, askConflictResolution, addSession, runSession]);
+
+  const pauseSession = (sessionId: string) => {
+    controllersRef.current.get(sessionId)?.abort();
+  };
+
+  const resumeSession = async (session: FileUploadSession) => {
+    const record = recordsRef.current.get(session.id);
+    if (!record) return;
+
+    const result = await runSession(record, [...session.metrics]);
+
+    if (result === 'completed') {
+      toast({
+        title: "Upload Complete",
+        description: `${session.fileName} uploaded successfully`,
+      });
+      onUploadComplete();
+    } else if (result === 'failed') {
+      toast({
+        title: "Upload Failed",
+        description: `Failed to upload ${session.fileName}. Your progress was kept so you can resume.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const cancelSession = async (sessionId: string) => {
+    const user = getCurrentUser();
+    const record = recordsRef.current.get(sessionId);
+    if (!user || !record) return;
+
+    // Let the chunk in flight land before its parts are removed
+    controllersRef.current.get(sessionId)?.abort();
+    await runningRef.current.get(sessionId);
+
+    try {
+      await cancelUpload(backend, user, record);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `${record.file.name} could not be cancelled: ${describeStorageError(error)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    recordsRef.current.delete(sessionId);
+    setUploadSessions(prev => prev.filter(session => session.id !== sessionId));
+
+    toast({
+      title: "Upload Cancelled",
+      description: `${record.file.name} was not uploaded`,
+    });
+  };
 
   const downloadSessionData = (session: FileUploadSession) => {
     if (session.metrics.length === 0) {
@@ -256,6 +510,23 @@ const FileUploader = ({ onUploadComplete }: FileUploaderProps) => {
         </CardContent>
       </Card>
 
+      {extraction && (
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-2 font-medium min-w-0">
+                <FileArchive className="h-4 w-4 shrink-0" />
+                <span className="truncate">Extracting {extraction.fileName}</span>
+              </span>
+              <span className="text-muted-foreground whitespace-nowrap">
+                {extraction.done}/{extraction.total} files
+              </span>
+            </div>
+            <Progress value={(extraction.done / Math.max(extraction.total, 1)) * 100} className="w-full" />
+          </CardContent>
+        </Card>
+      )}
+
       {uploadSessions.length > 0 && (
         <Card>
           <CardContent className="p-4">
@@ -273,36 +544,79 @@ const FileUploader = ({ onUploadComplete }: FileUploaderProps) => {
                       <span className="text-sm text-muted-foreground">
                         ({formatFileSize(session.fileSize)})
                       </span>
-                      {session.completed && session.actuallyUploaded && (
+                      {session.status === 'completed' && (
                         <span className="text-green-600 text-sm">✓ Uploaded to Storage</span>
                       )}
-                      {session.completed && !session.actuallyUploaded && (
+                      {session.status === 'failed' && (
                         <span className="text-red-600 text-sm">✗ Upload Failed</span>
                       )}
+                      {session.status === 'paused' && (
+                        <span className="text-muted-foreground text-sm">Paused</span>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => downloadSessionData(session)}
-                        disabled={!session.completed || session.metrics.length === 0}
-                        className="flex items-center gap-1"
-                      >
-                        <Download className="h-3 w-3" />
-                        Export CSV
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => deleteSession(session.id)}
-                        className="text-destructive hover:text-destructive"
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
+                      {session.status === 'uploading' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => pauseSession(session.id)}
+                          className="flex items-center gap-1"
+                        >
+                          <Pause className="h-3 w-3" />
+                          Pause
+                        </Button>
+                      )}
+                      {(session.status === 'paused' || session.status === 'failed') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => resumeSession(session)}
+                          className="flex items-center gap-1"
+                        >
+                          <Play className="h-3 w-3" />
+                          Resume
+                        </Button>
+                      )}
+                      {session.status !== 'completed' ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => cancelSession(session.id)}
+                          className="flex items-center gap-1 text-destructive hover:text-destructive"
+                        >
+                          <X className="h-3 w-3" />
+                          Cancel
+                        </Button>
+                      ) : (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => downloadSessionData(session)}
+                            disabled={session.metrics.length === 0}
+                            className="flex items-center gap-1"
+                          >
+                            <Download className="h-3 w-3" />
+                            Export CSV
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteSession(session.id)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </div>
 
-                  {!session.completed && (
+                  {session.errorMessage && (
+                    <p className="text-sm text-destructive">{session.errorMessage}</p>
+                  )}
+
+                  {session.status !== 'completed' && (
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
                         <span>Progress: {session.progress.toFixed(1)}%</span>
@@ -312,7 +626,7 @@ const FileUploader = ({ onUploadComplete }: FileUploaderProps) => {
                     </div>
                   )}
 
-                  {session.completed && session.metrics.length > 0 && (
+                  {session.status === 'completed' && session.metrics.length > 0 && (
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
                       <div className="text-center p-2 bg-muted rounded">
                         <div className="font-bold text-primary">
@@ -346,6 +660,16 @@ const FileUploader = ({ onUploadComplete }: FileUploaderProps) => {
           </CardContent>
         </Card>
       )}
+      
+      <UploadConflictDialog
+        fileName={pendingConflict?.fileName ?? null}
+        hasMoreConflicts={pendingConflict?.hasMoreConflicts ?? false}
+        onResolve={resolveConflict}
+      />
+      <ZipImportDialog
+        fileName={pendingZipImport?.fileName ?? null}
+        onResolve={resolveZipImport}
+      />
     </div>
   );
 };
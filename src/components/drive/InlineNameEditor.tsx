@@ -0,0 +1,105 @@
+import { useState, useEffect, useRef } from 'react';
+import { Input } from "@/components/ui/input";
+import { cn } from '@/lib/utils';
+
+interface InlineNameEditorProps {
+  initialName: string;
+  validate: (name: string) => string | null; // error message, or null when the name can be used
+  getWarning?: (name: string) => string | null; // shown without blocking the rename
+  selectBaseName?: boolean; // select the name without its extension, for files
+  onSubmit: (name: string) => Promise<string | null>; // resolves to an error message, or null when renamed
+  onCancel: () => void;
+  className?: string;
+}
+
+// Text field that replaces an item's name while it is renamed. Enter or leaving the field saves,
+// Escape cancels.
+const InlineNameEditor = ({
+  initialName,
+  validate,
+  getWarning,
+  selectBaseName = false,
+  onSubmit,
+  onCancel,
+  className
+}: InlineNameEditorProps) => {
+  const [name, setName] = useState(initialName);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Enter and the blur that can follow it must not save twice
+  const savingRef = useRef(false);
+  const error = submitError ?? validate(name);
+  const warning = error ? null : getWarning?.(name) ?? null;
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    input.focus();
+    const dot = initialName.lastIndexOf('.');
+    input.setSelectionRange(0, selectBaseName && dot > 0 ? dot : initialName.length);
+  }, [initialName, selectBaseName]);
+
+  const submit = async () => {
+    if (savingRef.current) return;
+
+    if (name.trim() === initialName) {
+      onCancel();
+      return;
+    }
+    if (validate(name)) {
+      return;
+    }
+
+    savingRef.current = true;
+    setIsSaving(true);
+    const result = await onSubmit(name.trim());
+    savingRef.current = false;
+    setIsSaving(false);
+    setSubmitError(result);
+    if (result) {
+      inputRef.current?.focus();
+    }
+  };
+
+  return (
+    <div className={cn("min-w-0", className)} onClick={(e) => e.stopPropagation()}>
+      <Input
+        ref={inputRef}
+        className="h-7 px-2 text-sm"
+        value={name}
+        readOnly={isSaving}
+        aria-label="New name"
+        aria-invalid={!!error}
+        onChange={(e) => {
+          setName(e.target.value);
+          setSubmitError(null);
+        }}
+        onKeyDown={(e) => {
+          // Keep keys such as space from reaching the card or row
+          e.stopPropagation();
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            submit();
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onCancel();
+          }
+        }}
+        onBlur={() => {
+          // An invalid name cannot be saved, so leaving the field gives up on it
+          if (error) {
+            onCancel();
+          } else {
+            submit();
+          }
+        }}
+      />
+      {error && <p className="text-xs text-destructive mt-1">{error}</p>}
+      {warning && <p className="text-xs text-amber-600 dark:text-amber-500 mt-1">{warning}</p>}
+    </div>
+  );
+};
+
+export default InlineNameEditor;
@@ -0,0 +1,80 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD = isMac ? '⌘' : 'Ctrl';
+
+const SHORTCUT_GROUPS: { title: string; shortcuts: { keys: string[]; description: string }[] }[] = [
+  {
+    title: 'General',
+    shortcuts: [
+      { keys: [MOD, 'K'], description: 'Open the command palette' },
+      { keys: ['?'], description: 'Show keyboard shortcuts' },
+    ],
+  },
+  {
+    title: 'Files and folders',
+    shortcuts: [
+      { keys: ['←', '↑', '→', '↓'], description: 'Move between items' },
+      { keys: ['Home'], description: 'First item' },
+      { keys: ['End'], description: 'Last item' },
+      { keys: ['Enter'], description: 'Open the file or folder' },
+      { keys: ['Space'], description: 'Select or deselect the file' },
+      { keys: ['F2'], description: 'Rename' },
+      { keys: ['Delete'], description: 'Move to trash' },
+    ],
+  },
+  {
+    title: 'Preview',
+    shortcuts: [
+      { keys: ['←', '→'], description: 'Previous or next file' },
+      { keys: ['Esc'], description: 'Close' },
+    ],
+  },
+];
+
+const KeyboardShortcutsDialog = ({ open, onOpenChange }: KeyboardShortcutsDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>Click an item, or press Tab to reach the file list, then use these keys.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {SHORTCUT_GROUPS.map(group => (
+            <div key={group.title}>
+              <h4 className="text-xs font-medium text-muted-foreground mb-2">{group.title}</h4>
+              <dl className="space-y-1.5">
+                {group.shortcuts.map(shortcut => (
+                  <div key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+                    <dt>{shortcut.description}</dt>
+                    <dd className="flex gap-1">
+                      {shortcut.keys.map(key => (
+                        <kbd key={key} className="min-w-6 rounded border bg-muted px-1.5 py-0.5 text-center font-mono text-xs">
+                          {key}
+                        </kbd>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyboardShortcutsDialog;
@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ROOT_PATH } from '@/utils/pathUtils';
+
+interface MoveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  folders: string[]; // candidate destinations, excluding the root
+  currentPath: string;
+  onSubmit: (destinationPath: string) => void;
+}
+
+const MoveDialog = ({ open, onOpenChange, title, description, folders, currentPath, onSubmit }: MoveDialogProps) => {
+  const [destination, setDestination] = useState(currentPath);
+
+  useEffect(() => {
+    if (open) {
+      setDestination(currentPath);
+    }
+  }, [open, currentPath]);
+
+  const destinations = [ROOT_PATH, ...[...folders].sort()];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <Select value={destination} onValueChange={setDestination}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose a folder" />
+          </SelectTrigger>
+          <SelectContent>
+            {destinations.map((path) => (
+              <SelectItem key={path} value={path}>
+                {path === ROOT_PATH ? 'My Drive' : `My Drive${path}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DialogFooter>
+          <Button onClick={() => onSubmit(destination)} disabled={destination === currentPath}>
+            Move Here
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MoveDialog;
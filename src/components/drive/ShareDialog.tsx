@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { FileMetadata, getCurrentUser } from '@/utils/storageUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import { createShareLink, getShareUrl, copyShareUrl } from '@/utils/shareUtils';
+import { Copy } from 'lucide-react';
+
+interface ShareDialogProps {
+  file: FileMetadata | null; // the file to share, or null when closed
+  onOpenChange: (open: boolean) => void;
+}
+
+const ShareDialog = ({ file, onOpenChange }: ShareDialogProps) => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const [expiryDate, setExpiryDate] = useState("");
+  const [password, setPassword] = useState("");
+  const [maxDownloads, setMaxDownloads] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (file) {
+      setExpiryDate("");
+      setPassword("");
+      setMaxDownloads("");
+      setShareUrl(null);
+    }
+  }, [file]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const user = getCurrentUser();
+
+    if (!file || !user) {
+      toast({
+        title: "Error",
+        description: "Authentication required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const downloadLimit = maxDownloads ? Number(maxDownloads) : undefined;
+    if (downloadLimit !== undefined && (!Number.isInteger(downloadLimit) || downloadLimit < 1)) {
+      toast({
+        title: "Error",
+        description: "The download limit must be a whole number of at least 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The link stays valid through the whole expiry day
+    const expiresAt = expiryDate ? new Date(`${expiryDate}T23:59:59`).getTime() : undefined;
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      toast({
+        title: "Error",
+        description: "The expiry date must be in the future",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCreating(true);
+
+    try {
+      const result = await createShareLink(backend, user, file.id, {
+        expiresAt,
+        password: password || undefined,
+        maxDownloads: downloadLimit,
+      });
+
+      if (result) {
+        setShareUrl(getShareUrl(result.token));
+      } else {
+        toast({
+          title: "Error",
+          description: "File not found",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (shareUrl && await copyShareUrl(shareUrl)) {
+      toast({
+        title: "Link Copied",
+        description: "The share link is on your clipboard",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share link</DialogTitle>
+          <DialogDescription className="truncate">{file?.name}</DialogDescription>
+        </DialogHeader>
+        {shareUrl ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Anyone with this link can download the file as it is now. Later versions are not shared.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={shareUrl} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" title="Copy link" onClick={handleCopy}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-expiry">Expires on (optional)</Label>
+              <Input
+                id="share-expiry"
+                type="date"
+                value={expiryDate}
+                onChange={(e) => setExpiryDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password (optional)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-max-downloads">Maximum downloads (optional)</Label>
+              <Input
+                id="share-max-downloads"
+                type="number"
+                min={1}
+                step={1}
+                value={maxDownloads}
+                onChange={(e) => setMaxDownloads(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isCreating}>
+                {isCreating ? 'Creating...' : 'Create Link'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { getCurrentUser } from '@/utils/storageUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import {
+  UserShare,
+  ShareRole,
+  SharedItemType,
+  ShareWithUserResult,
+  getOwnedShares,
+  shareWithUser,
+  revokeUserShare
+} from '@/utils/userShareUtils';
+import { X } from 'lucide-react';
+
+export interface ShareableItem {
+  type: SharedItemType;
+  id: string; // file id, or folder path
+  name: string;
+}
+
+interface ShareWithUserDialogProps {
+  item: ShareableItem | null; // the item to share, or null when closed
+  onOpenChange: (open: boolean) => void;
+}
+
+const FAILURE_MESSAGES: Record<Exclude<ShareWithUserResult['status'], 'ok'>, string> = {
+  'unknown-user': 'No user with that name exists',
+  'own-account': 'You already own this item',
+  'no-key': 'That user has to log in once before items can be shared with them',
+  'not-found': 'The item no longer exists',
+};
+
+const ROLE_LABELS: Record<ShareRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+};
+
+const RoleSelect = ({ value, onChange }: { value: ShareRole; onChange: (role: ShareRole) => void }) => (
+  <Select value={value} onValueChange={(role) => onChange(role as ShareRole)}>
+    <SelectTrigger className="w-28">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {(Object.keys(ROLE_LABELS) as ShareRole[]).map(role => (
+        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const ShareWithUserDialog = ({ item, onOpenChange }: ShareWithUserDialogProps) => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const [recipient, setRecipient] = useState("");
+  const [role, setRole] = useState<ShareRole>('viewer');
+  const [shares, setShares] = useState<UserShare[]>([]);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const reportError = useCallback((description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadShares = useCallback(async () => {
+    const user = getCurrentUser();
+    if (!item || !user) return;
+
+    try {
+      const owned = await getOwnedShares(backend, user);
+      setShares(owned.filter(share => share.itemType === item.type && share.itemId === item.id));
+    } catch (error) {
+      reportError(describeStorageError(error));
+    }
+  }, [item, backend, reportError]);
+
+  useEffect(() => {
+    if (item) {
+      setRecipient("");
+      setRole('viewer');
+      setShares([]);
+      loadShares();
+    }
+  }, [item, loadShares]);
+
+  const share = async (username: string, shareRole: ShareRole): Promise<boolean> => {
+    const user = getCurrentUser();
+
+    if (!item || !user) {
+      reportError("Authentication required");
+      return false;
+    }
+
+    try {
+      const result = await shareWithUser(backend, user, item.type, item.id, username, shareRole);
+
+      if (result.status !== 'ok') {
+        reportError(FAILURE_MESSAGES[result.status]);
+        return false;
+      }
+    } catch (error) {
+      reportError(describeStorageError(error));
+      return false;
+    }
+
+    loadShares();
+    return true;
+  };
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!recipient.trim()) {
+      return;
+    }
+
+    setIsSharing(true);
+
+    if (await share(recipient, role)) {
+      toast({
+        title: "Shared",
+        description: `${item?.name} has been shared with ${recipient.trim()}`,
+      });
+      setRecipient("");
+    }
+
+    setIsSharing(false);
+  };
+
+  const handleRevoke = async (userShare: UserShare) => {
+    const user = getCurrentUser();
+    if (!user) return;
+
+    try {
+      if (await revokeUserShare(backend, user, userShare.id)) {
+        toast({
+          title: "Access Removed",
+          description: `${userShare.recipient} no longer has access to ${userShare.name}`,
+        });
+      }
+    } catch (error) {
+      reportError(describeStorageError(error));
+    }
+
+    loadShares();
+  };
+
+  return (
+    <Dialog open={item !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share with people</DialogTitle>
+          <DialogDescription className="truncate">{item?.name}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleShare} className="space-y-2">
+          <Label htmlFor="share-recipient">Username</Label>
+          <div className="flex gap-2">
+            <Input
+              id="share-recipient"
+              placeholder="Enter a username"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+            />
+            <RoleSelect value={role} onChange={setRole} />
+            <Button type="submit" disabled={isSharing || !recipient.trim()}>
+              Share
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">People with access</p>
+          {shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Only you can see this {item?.type}.</p>
+          ) : (
+            shares.map(userShare => (
+              <div key={userShare.id} className="flex items-center justify-between gap-2 p-2 bg-muted rounded-md">
+                <span className="font-medium truncate">{userShare.recipient}</span>
+                <div className="flex items-center gap-1">
+                  <RoleSelect value={userShare.role} onChange={(newRole) => share(userShare.recipient, newRole)} />
+                  <Button variant="ghost" size="icon" title="Remove access" onClick={() => handleRevoke(userShare)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+          <p className="text-xs text-muted-foreground">
+            Viewers can download. Editors can also upload new versions, add files to shared folders and
+            move files to your trash. Everything counts toward your storage.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareWithUserDialog;
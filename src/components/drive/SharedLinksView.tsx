@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { getCurrentUser, formatFileSize, getFileIcon } from '@/utils/storageUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import {
+  ShareLink,
+  ShareLinkStatus,
+  getShareLinks,
+  getShareLinkStatus,
+  getShareUrl,
+  copyShareUrl,
+  recoverShareToken,
+  revokeShareLink
+} from '@/utils/shareUtils';
+import { UserShare, getOwnedShares, revokeUserShare } from '@/utils/userShareUtils';
+import { Copy, File, Folder, Link2Off, UserX } from 'lucide-react';
+
+const STATUS_LABELS: Record<ShareLinkStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  exhausted: 'Download limit reached',
+};
+
+const formatDownloads = (link: ShareLink): string => {
+  return link.maxDownloads === undefined
+    ? `${link.downloadCount} downloads`
+    : `${link.downloadCount}/${link.maxDownloads} downloads`;
+};
+
+const formatExpiry = (link: ShareLink): string => {
+  return link.expiresAt === undefined
+    ? 'never expires'
+    : `expires ${new Date(link.expiresAt).toLocaleDateString()}`;
+};
+
+const SharedLinksView = () => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [userShares, setUserShares] = useState<UserShare[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reportError = useCallback((error: unknown) => {
+    toast({
+      title: "Error",
+      description: describeStorageError(error),
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadLinks = useCallback(async () => {
+    const user = getCurrentUser();
+    if (!user) return;
+
+    try {
+      setLinks(await getShareLinks(backend, user));
+      setUserShares(await getOwnedShares(backend, user));
+    } catch (error) {
+      reportError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [backend, reportError]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      if (await copyShareUrl(getShareUrl(await recoverShareToken(link)))) {
+        toast({
+          title: "Link Copied",
+          description: "The share link is on your clipboard",
+        });
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    const user = getCurrentUser();
+    if (!user) return;
+
+    try {
+      if (await revokeShareLink(backend, user, link.id)) {
+        toast({
+          title: "Link Revoked",
+          description: `The link to ${link.fileName} no longer works`,
+        });
+      }
+    } catch (error) {
+      reportError(error);
+    }
+
+    loadLinks();
+  };
+
+  const handleRevokeUserShare = async (share: UserShare) => {
+    const user = getCurrentUser();
+    if (!user) return;
+
+    try {
+      if (await revokeUserShare(backend, user, share.id)) {
+        toast({
+          title: "Access Removed",
+          description: `${share.recipient} no longer has access to ${share.name}`,
+        });
+      }
+    } catch (error) {
+      reportError(error);
+    }
+
+    loadLinks();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Shared by me</h2>
+        <p className="text-sm text-muted-foreground">
+          {links.length} {links.length === 1 ? 'link' : 'links'} · {userShares.length} shared with people
+        </p>
+      </div>
+
+      {!isLoading && userShares.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-muted-foreground">People</h3>
+          {userShares.map(share => (
+            <div key={share.id} className="file-item flex items-center justify-between p-3 bg-card rounded-md">
+              <div className="flex items-center space-x-3 min-w-0">
+                {share.itemType === 'folder' ? (
+                  <Folder className="h-6 w-6 text-primary shrink-0" />
+                ) : (
+                  <File className="h-6 w-6 text-muted-foreground shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-medium truncate flex items-center gap-2" title={share.name}>
+                    <span className="truncate">{share.name}</span>
+                    <Badge variant="secondary">{share.role === 'editor' ? 'Editor' : 'Viewer'}</Badge>
+                  </h3>
+                  <p className="text-xs text-muted-foreground truncate">
+                    Shared with {share.recipient} on {new Date(share.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" title="Remove access" onClick={() => handleRevokeUserShare(share)}>
+                <UserX className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <h3 className="text-sm font-medium text-muted-foreground pt-2">Links</h3>
+        </div>
+      )}
+
+      {!isLoading && links.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-xl font-medium text-muted-foreground">No share links</p>
+          <p className="text-sm text-muted-foreground mt-1">Use the share button on a file to create one</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {links.map(link => {
+            const status = getShareLinkStatus(link);
+
+            return (
+              <div key={link.id} className="file-item flex items-center justify-between p-3 bg-card rounded-md">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="text-2xl">{getFileIcon(link.fileType)}</div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-medium truncate flex items-center gap-2" title={link.fileName}>
+                      <span className="truncate">{link.fileName}</span>
+                      <Badge variant={status === 'active' ? 'secondary' : 'outline'}>{STATUS_LABELS[status]}</Badge>
+                      {link.hasPassword && <Badge variant="outline">Password</Badge>}
+                    </h3>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {formatFileSize(link.fileSize)} · {formatDownloads(link)} · {formatExpiry(link)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-1">
+                  <Button variant="ghost" size="icon" title="Copy link" onClick={() => handleCopy(link)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" title="Revoke link" onClick={() => handleRevoke(link)}>
+                    <Link2Off className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedLinksView;
@@ -0,0 +1,280 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { User, getCurrentUser, formatFileSize, getFileIcon } from '@/utils/storageUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import {
+  UserShare,
+  SharedItemFile,
+  getReceivedShares,
+  getSharedItemFiles,
+  downloadSharedItemFile,
+  trashSharedFile,
+  uploadToShare,
+  leaveUserShare
+} from '@/utils/userShareUtils';
+import { ROOT_PATH } from '@/utils/pathUtils';
+import { Download, Folder, LogOut, Trash2, Upload, FileUp } from 'lucide-react';
+
+interface ReceivedItem {
+  share: UserShare;
+  files: SharedItemFile[];
+}
+
+// Where the next picked file goes: a shared folder, or a new version of a shared file
+type UploadTarget = { shareId: string; replaceFileId?: string } | null;
+
+const SharedWithMeView = () => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const [items, setItems] = useState<ReceivedItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const uploadTarget = useRef<UploadTarget>(null);
+
+  const reportError = useCallback((description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const loadItems = useCallback(async () => {
+    const user = getCurrentUser();
+    if (!user) return;
+
+    try {
+      const received: ReceivedItem[] = [];
+      for (const share of await getReceivedShares(backend, user)) {
+        received.push({ share, files: (await getSharedItemFiles(backend, user, share.id)) ?? [] });
+      }
+      setItems(received);
+    } catch (error) {
+      reportError(describeStorageError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [backend, reportError]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const runShareAction = async (
+    action: (user: User) => Promise<boolean>,
+    successMessage: string,
+    errorMessage: string
+  ) => {
+    const user = getCurrentUser();
+
+    if (!user) {
+      reportError("Authentication required");
+      return;
+    }
+
+    try {
+      if (await action(user)) {
+        toast({
+          title: "Success",
+          description: successMessage,
+        });
+      } else {
+        reportError(errorMessage);
+      }
+    } catch (error) {
+      reportError(describeStorageError(error));
+    }
+
+    loadItems();
+  };
+
+  const handleDownload = async (share: UserShare, { file }: SharedItemFile) => {
+    const user = getCurrentUser();
+
+    if (!user) {
+      reportError("Authentication required");
+      return;
+    }
+
+    let data: Blob | null;
+
+    try {
+      data = await downloadSharedItemFile(backend, user, share.id, file.id);
+    } catch (error) {
+      reportError(describeStorageError(error));
+      return;
+    }
+
+    if (!data) {
+      reportError("The file is no longer shared with you");
+      loadItems();
+      return;
+    }
+
+    const url = URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const pickUpload = (target: UploadTarget) => {
+    uploadTarget.current = target;
+    uploadInputRef.current?.click();
+  };
+
+  const handleUploadPicked = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = e.target.files?.[0];
+    const target = uploadTarget.current;
+    e.target.value = '';
+
+    if (!upload || !target) {
+      return;
+    }
+
+    setIsUploading(true);
+    await runShareAction(
+      (user) => uploadToShare(backend, user, target.shareId, upload, target.replaceFileId),
+      target.replaceFileId ? `${upload.name} was uploaded as a new version` : `${upload.name} has been uploaded`,
+      "You can no longer edit this item"
+    );
+    setIsUploading(false);
+  };
+
+  const handleTrash = (share: UserShare, { file }: SharedItemFile) => {
+    runShareAction(
+      (user) => trashSharedFile(backend, user, share.id, file.id),
+      `${file.name} has been moved to ${share.owner}'s trash`,
+      "You can no longer edit this item"
+    );
+  };
+
+  const handleLeave = (share: UserShare) => {
+    runShareAction(
+      (user) => leaveUserShare(backend, user, share.id),
+      `You no longer have access to ${share.name}`,
+      "The share no longer exists"
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">Shared with me</h2>
+        <p className="text-sm text-muted-foreground">
+          Files and folders other users have shared with you. They do not count toward your storage.
+        </p>
+      </div>
+
+      <input ref={uploadInputRef} type="file" className="hidden" onChange={handleUploadPicked} />
+
+      {!isLoading && items.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-xl font-medium text-muted-foreground">Nothing shared with you yet</p>
+          <p className="text-sm text-muted-foreground mt-1">Items other users share with you show up here</p>
+        </div>
+      ) : (
+        items.map(({ share, files }) => {
+          const canEdit = share.role === 'editor';
+
+          return (
+            <div key={share.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center space-x-3 min-w-0">
+                  {share.itemType === 'folder' ? (
+                    <Folder className="h-6 w-6 text-primary shrink-0" />
+                  ) : (
+                    <div className="text-2xl">{getFileIcon(files[0]?.file.type ?? '')}</div>
+                  )}
+                  <div className="min-w-0">
+                    <h3 className="font-medium truncate flex items-center gap-2" title={share.name}>
+                      <span className="truncate">{share.name}</span>
+                      <Badge variant="secondary">{canEdit ? 'Editor' : 'Viewer'}</Badge>
+                    </h3>
+                    <p className="text-xs text-muted-foreground truncate">
+                      Shared by {share.owner} on {new Date(share.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-1">
+                  {canEdit && share.itemType === 'folder' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Upload to this folder"
+                      disabled={isUploading}
+                      onClick={() => pickUpload({ shareId: share.id })}
+                    >
+                      <Upload className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" title="Leave share" onClick={() => handleLeave(share)}>
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {files.length === 0 ? (
+                <p className="text-sm text-muted-foreground pl-9">
+                  {share.itemType === 'folder' ? 'This folder is empty' : 'This file is no longer available'}
+                </p>
+              ) : (
+                files.map(item => (
+                  <div key={item.file.id} className="file-item flex items-center justify-between p-2 pl-9 bg-card rounded-md">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <div className="text-xl">{getFileIcon(item.file.type)}</div>
+                      <div className="min-w-0">
+                        <p className="font-medium truncate" title={item.file.name}>{item.file.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {formatFileSize(item.file.size)}
+                          {item.folderPath !== ROOT_PATH && ` · ${share.name}${item.folderPath}`}
+                          {!item.canOpen && ` · waiting for ${share.owner} to grant access`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Download"
+                        disabled={!item.canOpen}
+                        onClick={() => handleDownload(share, item)}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      {canEdit && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Upload new version"
+                            disabled={!item.canOpen || isUploading}
+                            onClick={() => pickUpload({ shareId: share.id, replaceFileId: item.file.id })}
+                          >
+                            <FileUp className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Move to trash" onClick={() => handleTrash(share, item)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default SharedWithMeView;
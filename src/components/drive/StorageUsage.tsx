@@ -1,26 +1,93 @@
 
-import { Progress } from "@/components/ui/progress";
-import { UserStorage, formatFileSize } from '@/utils/storageUtils';
+import { useState, useEffect } from 'react';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { UserStorage, formatFileSize, getCurrentUser } from '@/utils/storageUtils';
+import {
+  DeviceStorageEstimate,
+  PLAN_TIERS,
+  getDeviceStorageEstimate,
+  getUserPlan,
+  getQuotaWarningThresholds,
+  getReachedThreshold
+} from '@/utils/quotaUtils';
+import { getTrashedSpace } from '@/utils/trashUtils';
+import { AlertTriangle } from 'lucide-react';
 
 interface StorageUsageProps {
   storage: UserStorage;
 }
 
 const StorageUsage = ({ storage }: StorageUsageProps) => {
+  const backend = useStorageBackend();
+  const [deviceEstimate, setDeviceEstimate] = useState<DeviceStorageEstimate | null>(null);
   const usagePercentage = (storage.usedSpace / storage.totalSpace) * 100;
+  const trashedSpace = getTrashedSpace(storage);
+  const trashPercentage = Math.min((trashedSpace / storage.totalSpace) * 100, 100);
+  const filesPercentage = Math.min(usagePercentage, 100) - trashPercentage;
+  const user = getCurrentUser();
+  const plan = user ? PLAN_TIERS[getUserPlan(user.username)] : null;
+  const thresholds = user ? getQuotaWarningThresholds(user.username) : [];
+  const reachedThreshold = getReachedThreshold(storage.usedSpace, storage.totalSpace, thresholds);
+  const isCritical = reachedThreshold !== null && reachedThreshold === Math.max(...thresholds);
+  
+  // Files live in this browser unless a server backend is used, so its real free space matters
+  useEffect(() => {
+    if (backend.kind !== 'http') {
+      getDeviceStorageEstimate().then(setDeviceEstimate);
+    }
+  }, [backend, storage]);
   
   return (
     <div className="mb-8">
       <div className="flex justify-between items-center mb-2">
-        <h3 className="font-medium">Storage</h3>
+        <h3 className="font-medium">
+          Storage
+          {plan && <span className="ml-2 text-xs font-normal text-muted-foreground">{plan.label} plan</span>}
+        </h3>
         <span className="text-sm text-muted-foreground">
           {formatFileSize(storage.usedSpace)} / {formatFileSize(storage.totalSpace)}
         </span>
       </div>
-      <Progress value={usagePercentage} className="h-2" />
-      <p className="text-xs text-muted-foreground mt-1 text-right">
-        {usagePercentage.toFixed(2)}% used
-      </p>
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-secondary">
+        <div className="h-full bg-primary transition-all" style={{ width: `${Math.max(0, filesPercentage)}%` }} />
+        <div className="h-full bg-primary/40 transition-all" style={{ width: `${trashPercentage}%` }} title="Trash" />
+      </div>
+      {trashedSpace > 0 && (
+        <div className="flex items-center gap-4 text-xs text-muted-foreground mt-1">
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full bg-primary" />
+            Files {formatFileSize(storage.usedSpace - trashedSpace)}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full bg-primary/40" />
+            Trash {formatFileSize(trashedSpace)}
+          </span>
+        </div>
+      )}
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>
+          {deviceEstimate && (
+            <>
+              Browser storage: {formatFileSize(deviceEstimate.available)} free of {formatFileSize(deviceEstimate.quota)}
+              {deviceEstimate.available < storage.totalSpace - storage.usedSpace && ' (limits uploads)'}
+            </>
+          )}
+        </span>
+        <span>{usagePercentage.toFixed(2)}% used</span>
+      </div>
+      {reachedThreshold !== null && (
+        <Alert variant={isCritical ? 'destructive' : 'default'} className="mt-3">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {usagePercentage >= 100 ? 'Storage full' : `Storage over ${reachedThreshold}% full`}
+          </AlertTitle>
+          <AlertDescription>
+            {formatFileSize(Math.max(0, storage.totalSpace - storage.usedSpace))} left.{' '}
+            {trashedSpace > 0 ? 'Empty the trash, delete files' : 'Delete files'} or upgrade your plan to keep uploading.
+          </AlertDescription>
+        </Alert>
+      )}
     </div>
   );
 };
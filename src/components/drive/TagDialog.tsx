@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { MAX_TAG_LENGTH, normalizeTag } from '@/utils/tagUtils';
+
+interface TagDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  description?: string;
+  onSubmit: (tag: string) => void;
+}
+
+const TagDialog = ({ open, onOpenChange, description, onSubmit }: TagDialogProps) => {
+  const [tag, setTag] = useState('');
+  const normalized = normalizeTag(tag);
+  const error = tag && !normalized
+    ? `Tags can use letters, numbers, "-" and "_", up to ${MAX_TAG_LENGTH} characters`
+    : null;
+
+  useEffect(() => {
+    if (open) {
+      setTag('');
+    }
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (normalized) {
+      onSubmit(normalized);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Tag</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="tag-name">Tag</Label>
+            <Input
+              id="tag-name"
+              placeholder="e.g. invoices"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={!normalized}>
+              Add Tag
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TagDialog;
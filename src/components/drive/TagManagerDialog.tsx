@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { UserStorage, User, getCurrentUser } from '@/utils/storageUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import { MAX_TAG_LENGTH, normalizeTag, getTagUsage, renameTag, deleteTag } from '@/utils/tagUtils';
+import { Check, Pencil, Search, Trash2, X } from 'lucide-react';
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storage: UserStorage;
+  onStorageChanged: () => void;
+  onFilterByTag: (tag: string) => void;
+}
+
+const TagManagerDialog = ({ open, onOpenChange, storage, onStorageChanged, onFilterByTag }: TagManagerDialogProps) => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [deletingTag, setDeletingTag] = useState<string | null>(null);
+  const usage = getTagUsage(storage);
+  const normalized = normalizeTag(newName);
+
+  useEffect(() => {
+    if (!open) {
+      setEditingTag(null);
+    }
+  }, [open]);
+
+  const runTagAction = async (action: (user: User) => Promise<number | null>, describe: (changed: number) => string) => {
+    const user = getCurrentUser();
+    
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "Authentication required",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    try {
+      const changed = await action(user);
+      if (changed === null) {
+        toast({
+          title: "Error",
+          description: `Tags can use letters, numbers, "-" and "_", up to ${MAX_TAG_LENGTH} characters`,
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      toast({
+        title: "Tags Updated",
+        description: describe(changed),
+      });
+      onStorageChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startRename = (tag: string) => {
+    setEditingTag(tag);
+    setNewName(tag);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = editingTag;
+    
+    if (!tag || !normalized) {
+      return;
+    }
+    
+    setEditingTag(null);
+    // Renaming onto an existing tag merges the two
+    runTagAction(
+      (user) => renameTag(backend, user, tag, normalized),
+      (changed) => `"${tag}" was renamed to "${normalized}" on ${changed} ${changed === 1 ? 'file' : 'files'}`
+    );
+  };
+
+  const handleDelete = (tag: string) => {
+    setDeletingTag(null);
+    runTagAction(
+      (user) => deleteTag(backend, user, tag),
+      (changed) => `"${tag}" was removed from ${changed} ${changed === 1 ? 'file' : 'files'}`
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Manage Tags</DialogTitle>
+            <DialogDescription>
+              Rename or delete tags across all your files. Search with <code>tag:name</code> to find tagged files.
+            </DialogDescription>
+          </DialogHeader>
+          {usage.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">
+              No tags yet. Add them to files from the file menu or the selection bar.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {usage.map(({ tag, count }) => (
+                <li key={tag} className="flex items-center justify-between gap-2 py-2">
+                  {editingTag === tag ? (
+                    <form onSubmit={handleRename} className="flex flex-1 items-center gap-1">
+                      <Input
+                        className="h-8"
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        aria-invalid={!normalized}
+                        autoFocus
+                      />
+                      <Button type="submit" variant="ghost" size="icon" title="Save" disabled={!normalized}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="icon" title="Cancel" onClick={() => setEditingTag(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </form>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Badge variant="secondary" className="font-normal truncate">{tag}</Badge>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {count} {count === 1 ? 'file' : 'files'}
+                        </span>
+                      </div>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Show files"
+                          onClick={() => {
+                            onFilterByTag(tag);
+                            onOpenChange(false);
+                          }}
+                        >
+                          <Search className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" title="Rename" onClick={() => startRename(tag)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" title="Delete" onClick={() => setDeletingTag(tag)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+      <AlertDialog open={deletingTag !== null} onOpenChange={(open) => !open && setDeletingTag(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tag "{deletingTag}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tag is removed from every file that has it. The files themselves are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingTag && handleDelete(deletingTag)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default TagManagerDialog;
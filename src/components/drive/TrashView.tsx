@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { User, UserStorage, TrashedFile, getCurrentUser, formatFileSize, getFileIcon } from '@/utils/storageUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import {
+  TRASH_RETENTION_OPTIONS,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  getPurgeDate,
+  getTrashedSpace,
+  restoreFile,
+  purgeFile,
+  emptyTrash,
+  purgeExpiredTrash
+} from '@/utils/trashUtils';
+import { ROOT_PATH } from '@/utils/pathUtils';
+import { ArchiveRestore, Trash2 } from 'lucide-react';
+
+interface TrashViewProps {
+  storage: UserStorage;
+  onStorageChanged: () => void;
+}
+
+// Pending confirmation: a single file, or every file when emptying the trash
+type PurgeTarget = TrashedFile | 'all' | null;
+
+const formatRetention = (days: number): string => {
+  if (days === 0) return 'Never';
+  return days === 1 ? 'After 1 day' : `After ${days} days`;
+};
+
+const TrashView = ({ storage, onStorageChanged }: TrashViewProps) => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const user = getCurrentUser();
+  const [retentionDays, setRetentionDays] = useState(() => user ? getTrashRetentionDays(user.username) : 0);
+  const [purgeTarget, setPurgeTarget] = useState<PurgeTarget>(null);
+  const trash = [...storage.trash].sort((a, b) => b.trashedAt - a.trashedAt);
+
+  // The session may have outlived the retention period of some files
+  useEffect(() => {
+    const currentUser = getCurrentUser();
+    if (currentUser) {
+      purgeExpiredTrash(backend, currentUser)
+        .then(purged => purged > 0 && onStorageChanged())
+        .catch(() => undefined);
+    }
+  }, [retentionDays, backend, onStorageChanged]);
+
+  const runTrashAction = async (action: (user: User) => Promise<unknown>, successMessage: string) => {
+    const currentUser = getCurrentUser();
+
+    if (!currentUser) {
+      toast({
+        title: "Error",
+        description: "Authentication required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      if (await action(currentUser)) {
+        toast({
+          title: "Success",
+          description: successMessage,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: describeStorageError(error),
+        variant: "destructive",
+      });
+    }
+
+    onStorageChanged();
+  };
+
+  const handleRestore = (file: TrashedFile) => {
+    const location = file.path === ROOT_PATH ? 'My Drive' : `My Drive${file.path}`;
+    runTrashAction(
+      (user) => restoreFile(backend, user, file.id),
+      `${file.name} has been restored to ${location}`
+    );
+  };
+
+  const handlePurge = () => {
+    if (purgeTarget === 'all') {
+      runTrashAction((user) => emptyTrash(backend, user), "The trash has been emptied");
+    } else if (purgeTarget) {
+      const file = purgeTarget;
+      runTrashAction((user) => purgeFile(backend, user, file.id), `${file.name} has been permanently deleted`);
+    }
+    setPurgeTarget(null);
+  };
+
+  const handleRetentionChange = (value: string) => {
+    const days = Number(value);
+
+    if (user && setTrashRetentionDays(user.username, days)) {
+      setRetentionDays(days);
+    }
+  };
+
+  const formatPurgeDate = (file: TrashedFile): string => {
+    const purgeDate = getPurgeDate(file, retentionDays);
+    return purgeDate === null ? '' : ` · deleted forever on ${new Date(purgeDate).toLocaleDateString()}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Trash</h2>
+          <p className="text-sm text-muted-foreground">
+            {trash.length} {trash.length === 1 ? 'file' : 'files'} · {formatFileSize(getTrashedSpace(storage))} still counted toward your storage
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground whitespace-nowrap">Delete forever</span>
+          <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>{formatRetention(days)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="destructive" disabled={trash.length === 0} onClick={() => setPurgeTarget('all')}>
+            Empty Trash
+          </Button>
+        </div>
+      </div>
+
+      {trash.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-xl font-medium text-muted-foreground">Trash is empty</p>
+          <p className="text-sm text-muted-foreground mt-1">Deleted files show up here until they are purged</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {trash.map(file => (
+            <div key={file.id} className="file-item flex items-center justify-between p-3 bg-card rounded-md">
+              <div className="flex items-center space-x-3 min-w-0">
+                <div className="text-2xl">{getFileIcon(file.type)}</div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-medium truncate" title={file.name}>
+                    {file.name}
+                  </h3>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatFileSize(file.size)} · deleted {new Date(file.trashedAt).toLocaleDateString()}
+                    {formatPurgeDate(file)}
+                  </p>
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <Button variant="ghost" size="icon" title="Restore" onClick={() => handleRestore(file)}>
+                  <ArchiveRestore className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Delete forever" onClick={() => setPurgeTarget(file)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={purgeTarget !== null} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purgeTarget === 'all' ? 'Empty trash?' : `Delete ${purgeTarget?.name} forever?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget === 'all'
+                ? 'Every file in the trash will be permanently deleted. This cannot be undone.'
+                : 'The file will be permanently deleted. This cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge}>Delete Forever</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { UploadConflictResolution } from '@/utils/versionUtils';
+
+interface UploadConflictDialogProps {
+  fileName: string | null; // the conflicting upload, or null when closed
+  hasMoreConflicts: boolean; // offer to apply the choice to the rest of the batch
+  onResolve: (resolution: UploadConflictResolution, applyToAll: boolean) => void;
+}
+
+const UploadConflictDialog = ({ fileName, hasMoreConflicts, onResolve }: UploadConflictDialogProps) => {
+  const [applyToAll, setApplyToAll] = useState(false);
+
+  useEffect(() => {
+    if (fileName) setApplyToAll(false);
+  }, [fileName]);
+
+  return (
+    <Dialog open={fileName !== null} onOpenChange={(open) => !open && onResolve('skip', false)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>File already exists</DialogTitle>
+          <DialogDescription>
+            A file named <span className="font-medium text-foreground break-all">{fileName}</span> already exists in this folder.
+          </DialogDescription>
+        </DialogHeader>
+        {hasMoreConflicts && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="apply-to-all-conflicts"
+              checked={applyToAll}
+              onCheckedChange={(checked) => setApplyToAll(checked === true)}
+            />
+            <Label htmlFor="apply-to-all-conflicts">Do this for all remaining conflicts</Label>
+          </div>
+        )}
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" onClick={() => onResolve('skip', applyToAll)}>
+            Skip
+          </Button>
+          <Button variant="outline" onClick={() => onResolve('keep-both', applyToAll)}>
+            Keep Both
+          </Button>
+          <Button onClick={() => onResolve('replace', applyToAll)}>
+            Replace as New Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UploadConflictDialog;
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useToast } from "@/components/ui/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { FileMetadata, FileVersion, getCurrentUser, formatFileSize } from '@/utils/storageUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import {
+  MAX_VERSION_OPTIONS,
+  getMaxVersions,
+  setMaxVersions,
+  downloadVersion,
+  restoreVersion,
+  pruneVersions
+} from '@/utils/versionUtils';
+import { Download, RotateCcw } from 'lucide-react';
+
+interface VersionHistoryDialogProps {
+  file: FileMetadata | null; // the file whose history is shown, or null when closed
+  onOpenChange: (open: boolean) => void;
+  onDownloadCurrent: (file: FileMetadata) => void;
+  onStorageChanged: () => void;
+}
+
+const VersionHistoryDialog = ({ file, onOpenChange, onDownloadCurrent, onStorageChanged }: VersionHistoryDialogProps) => {
+  const { toast } = useToast();
+  const backend = useStorageBackend();
+  const user = getCurrentUser();
+  const [maxVersions, setMaxVersionsState] = useState(() => user ? getMaxVersions(user.username) : 0);
+  const [isBusy, setIsBusy] = useState(false);
+  const versions = file?.versions ?? [];
+
+  const reportError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const handleDownload = async (version: FileVersion) => {
+    const currentUser = getCurrentUser();
+    if (!file || !currentUser) {
+      reportError("Authentication required");
+      return;
+    }
+
+    let data: Blob | null;
+
+    try {
+      data = await downloadVersion(backend, currentUser, file.id, version.blobId);
+    } catch (error) {
+      reportError(describeStorageError(error));
+      return;
+    }
+
+    if (!data) {
+      reportError("Version not found");
+      return;
+    }
+
+    const url = URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRestore = async (version: FileVersion) => {
+    const currentUser = getCurrentUser();
+    if (!file || !currentUser) {
+      reportError("Authentication required");
+      return;
+    }
+
+    setIsBusy(true);
+
+    try {
+      if (await restoreVersion(backend, currentUser, file.id, version.blobId)) {
+        toast({
+          title: "Version Restored",
+          description: `${file.name} now has the content from ${new Date(version.lastModified).toLocaleString()}`,
+        });
+        onStorageChanged();
+      } else {
+        reportError("Version not found");
+      }
+    } catch (error) {
+      reportError(describeStorageError(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleMaxVersionsChange = async (value: string) => {
+    const limit = Number(value);
+    const currentUser = getCurrentUser();
+
+    if (!currentUser || !setMaxVersions(currentUser.username, limit)) {
+      return;
+    }
+
+    setMaxVersionsState(limit);
+
+    try {
+      if ((await pruneVersions(backend, currentUser, limit)) > 0) {
+        onStorageChanged();
+      }
+    } catch (error) {
+      reportError(describeStorageError(error));
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription className="truncate">{file?.name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {file && (
+            <div className="flex items-center justify-between p-3 bg-muted rounded-md">
+              <div className="min-w-0">
+                <p className="font-medium flex items-center gap-2">
+                  {new Date(file.lastModified).toLocaleString()}
+                  <Badge variant="secondary">Current</Badge>
+                </p>
+                <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+              </div>
+              <Button variant="ghost" size="icon" title="Download" onClick={() => onDownloadCurrent(file)}>
+                <Download className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+          {versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              No earlier versions. Uploading a file with the same name can replace it as a new version.
+            </p>
+          ) : (
+            versions.map(version => (
+              <div key={version.blobId} className="flex items-center justify-between p-3 bg-card border rounded-md">
+                <div className="min-w-0">
+                  <p className="font-medium">{new Date(version.lastModified).toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(version.size)} · replaced {new Date(version.replacedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex space-x-1">
+                  <Button variant="ghost" size="icon" title="Download" onClick={() => handleDownload(version)}>
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Restore this version"
+                    disabled={isBusy}
+                    onClick={() => handleRestore(version)}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-muted-foreground">Versions kept per file</span>
+          <Select value={String(maxVersions)} onValueChange={handleMaxVersionsChange}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_VERSION_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VersionHistoryDialog;
@@ -0,0 +1,44 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getArchiveFolderName } from '@/utils/archiveUtils';
+
+export type ZipImportChoice = 'extract' | 'upload';
+
+interface ZipImportDialogProps {
+  fileName: string | null; // the ZIP being uploaded, or null when closed
+  onResolve: (choice: ZipImportChoice) => void;
+}
+
+const ZipImportDialog = ({ fileName, onResolve }: ZipImportDialogProps) => {
+  return (
+    <Dialog open={fileName !== null} onOpenChange={(open) => !open && onResolve('upload')}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Extract ZIP archive?</DialogTitle>
+          <DialogDescription>
+            <span className="font-medium text-foreground break-all">{fileName}</span> can be extracted into a new
+            folder named <span className="font-medium text-foreground break-all">{getArchiveFolderName(fileName ?? '')}</span>,
+            keeping its folder structure and modification times.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onResolve('upload')}>
+            Upload as ZIP
+          </Button>
+          <Button onClick={() => onResolve('extract')}>
+            Extract
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ZipImportDialog;
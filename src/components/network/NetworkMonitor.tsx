@@ -5,7 +5,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { Upload, Download, Activity, Wifi, File, Trash2 } from 'lucide-react';
-import { uploadFile, getCurrentUser } from '@/utils/storageUtils';
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { getCurrentUser } from '@/utils/storageUtils';
+import { uploadFile } from '@/utils/uploadUtils';
 import NetworkGraph from './NetworkGraph';
 
 interface NetworkMetrics {
@@ -28,6 +30,7 @@ interface FileUploadSession {
 
 const NetworkMonitor = () => {
   const { toast } = useToast();
+  const backend = useStorageBackend();
   const [isUploading, setIsUploading] = useState(false);
   const [currentMetrics, setCurrentMetrics] = useState<NetworkMetrics | null>(null);
   const [currentFileName, setCurrentFileName] = useState<string>('');
@@ -88,10 +91,10 @@ const NetworkMonitor = () => {
       let bytesTransferred = 0;
       const metricsHistory: NetworkMetrics[] = [];
 
-      const uploadChunk = () => {
+      const uploadChunk = async () => {
         if (bytesTransferred >= totalBytes) {
           // Final upload
-          const success = uploadFile(user, file);
+          const success = await uploadFile(backend, user, file);
           
           // Update session as completed
           setUploadSessions(prev => 
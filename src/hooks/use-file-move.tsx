@@ -0,0 +1,116 @@
+import * as React from "react"
+
+import { useToast } from "@/hooks/use-toast"
+import { useStorageBackend } from "@/hooks/use-storage-backend"
+import { ToastAction } from "@/components/ui/toast"
+import { User, getCurrentUser } from "@/utils/storageUtils"
+import { FileMove, moveFiles, undoFileMoves } from "@/utils/folderUtils"
+import { formatLocation } from "@/utils/pathUtils"
+import { describeStorageError } from "@/utils/storageErrors"
+import { isFileDrag, getDraggedFileIds } from "@/utils/dragUtils"
+
+// Move files into a folder and offer to undo it; shared by every place files can be dropped
+export function useFileMove(onStorageChanged: () => void) {
+  const backend = useStorageBackend()
+  const { toast } = useToast()
+
+  const undo = React.useCallback(
+    async (user: User, moves: FileMove[]) => {
+      try {
+        const restored = await undoFileMoves(backend, user, moves)
+        toast({
+          title: "Move Undone",
+          description: `${restored} ${restored === 1 ? "file is" : "files are"} back where ${restored === 1 ? "it was" : "they were"}`,
+        })
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: describeStorageError(error),
+          variant: "destructive",
+        })
+      }
+      onStorageChanged()
+    },
+    [backend, toast, onStorageChanged]
+  )
+
+  return React.useCallback(
+    async (fileIds: string[], destinationPath: string) => {
+      const user = getCurrentUser()
+
+      if (!user) {
+        toast({
+          title: "Error",
+          description: "Authentication required",
+          variant: "destructive",
+        })
+        return
+      }
+
+      try {
+        const moves = await moveFiles(backend, user, fileIds, destinationPath)
+
+        if (moves === null) {
+          toast({
+            title: "Error",
+            description: "The destination folder no longer exists",
+            variant: "destructive",
+          })
+        } else if (moves.length > 0) {
+          toast({
+            title: "Files Moved",
+            description: `${moves.length} ${moves.length === 1 ? "file has" : "files have"} been moved to ${formatLocation(destinationPath)}`,
+            action: (
+              <ToastAction altText="Undo" onClick={() => undo(user, moves)}>
+                Undo
+              </ToastAction>
+            ),
+          })
+        }
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: describeStorageError(error),
+          variant: "destructive",
+        })
+      }
+      onStorageChanged()
+    },
+    [backend, toast, undo, onStorageChanged]
+  )
+}
+
+// Lets an element accept files dragged from the file list; isOver is true while they hover it
+export function useFileDropTarget(onDropFiles: (fileIds: string[]) => void) {
+  const [isOver, setIsOver] = React.useState(false)
+
+  const dropTargetProps = {
+    onDragOver: (event: React.DragEvent) => {
+      if (!isFileDrag(event.dataTransfer)) return
+
+      event.preventDefault()
+      event.dataTransfer.dropEffect = "move"
+      setIsOver(true)
+    },
+    onDragLeave: (event: React.DragEvent) => {
+      // Moving between the target's own children is not leaving it
+      if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+        setIsOver(false)
+      }
+    },
+    onDrop: (event: React.DragEvent) => {
+      if (!isFileDrag(event.dataTransfer)) return
+
+      event.preventDefault()
+      event.stopPropagation()
+      setIsOver(false)
+
+      const fileIds = getDraggedFileIds(event.dataTransfer)
+      if (fileIds.length > 0) {
+        onDropFiles(fileIds)
+      }
+    },
+  }
+
+  return { isOver, dropTargetProps }
+}
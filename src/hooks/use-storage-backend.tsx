@@ -0,0 +1,29 @@
+import * as React from "react"
+
+import type { StorageBackend } from "@/utils/storageBackend"
+
+const StorageBackendContext = React.createContext<StorageBackend | null>(null)
+
+export function StorageBackendProvider({
+  backend,
+  children,
+}: {
+  backend: StorageBackend
+  children: React.ReactNode
+}) {
+  return (
+    <StorageBackendContext.Provider value={backend}>
+      {children}
+    </StorageBackendContext.Provider>
+  )
+}
+
+export function useStorageBackend() {
+  const backend = React.useContext(StorageBackendContext)
+
+  if (!backend) {
+    throw new Error("useStorageBackend must be used within a StorageBackendProvider.")
+  }
+
+  return backend
+}
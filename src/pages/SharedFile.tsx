@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { useStorageBackend } from "@/hooks/use-storage-backend";
+import { formatFileSize, getFileIcon } from '@/utils/storageUtils';
+import { describeStorageError } from '@/utils/storageErrors';
+import { ShareLink, SharedFileResult, getSharedLink, getShareLinkStatus, downloadSharedFile } from '@/utils/shareUtils';
+import { Download } from 'lucide-react';
+
+const FAILURE_MESSAGES: Record<Exclude<SharedFileResult['status'], 'ok'>, string> = {
+  'not-found': 'This link does not exist or has been revoked.',
+  'expired': 'This link has expired.',
+  'exhausted': 'This link has reached its download limit.',
+  'invalid-password': 'Incorrect password.',
+  'unavailable': 'The shared file is no longer available.',
+};
+
+// Public download page for a share link; works without logging in
+const SharedFile = () => {
+  const { token = "" } = useParams();
+  const backend = useStorageBackend();
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [password, setPassword] = useState("");
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSharedLink(backend, token)
+      .then(sharedLink => {
+        setLink(sharedLink);
+        const status = sharedLink ? getShareLinkStatus(sharedLink) : 'not-found';
+        if (status !== 'active') {
+          setError(FAILURE_MESSAGES[status]);
+        }
+      })
+      .catch(err => setError(describeStorageError(err)))
+      .finally(() => setIsLoading(false));
+  }, [backend, token]);
+
+  const handleDownload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsDownloading(true);
+    setError(null);
+
+    try {
+      const result = await downloadSharedFile(backend, token, password || undefined);
+
+      if (result.status !== 'ok') {
+        setError(FAILURE_MESSAGES[result.status]);
+        return;
+      }
+
+      const url = URL.createObjectURL(result.blob);
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = result.name;
+      document.body.appendChild(anchor);
+      anchor.click();
+      document.body.removeChild(anchor);
+      URL.revokeObjectURL(url);
+
+      // Pick up the new download count, which may have used up the link
+      setLink(await getSharedLink(backend, token));
+    } catch (err) {
+      setError(describeStorageError(err));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const isActive = link !== null && getShareLinkStatus(link) === 'active';
+
+  return (
+    <div className="flex justify-center items-center min-h-screen p-4 bg-muted/50">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold">KeyDrive Vault</CardTitle>
+          <CardDescription>
+            {isLoading ? 'Loading shared file...' : 'A file has been shared with you'}
+          </CardDescription>
+        </CardHeader>
+        {link && (
+          <form onSubmit={handleDownload}>
+            <CardContent className="space-y-4">
+              <div className="flex items-center space-x-3 p-3 bg-muted rounded-md">
+                <div className="text-3xl">{getFileIcon(link.fileType)}</div>
+                <div className="min-w-0">
+                  <p className="font-medium truncate" title={link.fileName}>{link.fileName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(link.fileSize)}
+                    {link.expiresAt !== undefined && ` · available until ${new Date(link.expiresAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+              </div>
+              {isActive && link.hasPassword && (
+                <div className="space-y-2">
+                  <Label htmlFor="shared-file-password">Password</Label>
+                  <Input
+                    id="shared-file-password"
+                    type="password"
+                    placeholder="Enter the link password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+              )}
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </CardContent>
+            <CardFooter>
+              <Button
+                type="submit"
+                className="w-full flex items-center gap-2"
+                disabled={!isActive || isDownloading || (link.hasPassword && !password)}
+              >
+                <Download className="h-4 w-4" />
+                {isDownloading ? 'Decrypting...' : 'Download'}
+              </Button>
+            </CardFooter>
+          </form>
+        )}
+        {!link && error && (
+          <CardContent>
+            <p className="text-sm text-center text-destructive">{error}</p>
+          </CardContent>
+        )}
+        <CardFooter className="justify-center">
+          <a href="/" className="text-sm text-muted-foreground underline">
+            Go to KeyDrive Vault
+          </a>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default SharedFile;
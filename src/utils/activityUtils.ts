@@ -0,0 +1,86 @@
+// Activity log: what the user did to their files and when, kept in `UserStorage.activity`.
+// Operations that already save the metadata append to it before saving; the rest, such as
+// downloads, record it with an extra save. The log is capped by count and age.
+import type { StorageBackend } from './storageBackend';
+import { User, UserStorage, FileMetadata, getUserStorage } from './storageUtils';
+import { generateUuidV7 } from './cryptoUtils';
+import { normalizePath } from './pathUtils';
+
+export type ActivityAction = 'upload' | 'download' | 'trash' | 'restore' | 'delete' | 'rename' | 'move' | 'share';
+
+export interface ActivityEntry {
+  id: string;
+  action: ActivityAction;
+  timestamp: number;
+  name: string; // file or folder name at the time
+  path: string; // containing folder, or the folder itself for folder entries
+  fileId?: string; // absent for folder entries
+  isFolder?: boolean;
+  detail?: string; // e.g. the new name after a rename, or who a file was shared with
+}
+
+export type ActivityInput = Omit<ActivityEntry, 'id' | 'timestamp'>;
+
+export const ACTIVITY_ACTIONS: ActivityAction[] = ['upload', 'download', 'trash', 'restore', 'delete', 'rename', 'move', 'share'];
+
+export const MAX_ACTIVITY_ENTRIES = 1000;
+export const ACTIVITY_RETENTION_DAYS = 90;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Actions after which a file counts as recently used
+const RECENT_ACTIONS: ActivityAction[] = ['upload', 'download', 'restore', 'rename', 'move', 'share'];
+
+export const describeFile = (file: FileMetadata): Pick<ActivityInput, 'name' | 'path' | 'fileId'> => ({
+  name: file.name,
+  path: normalizePath(file.path),
+  fileId: file.id,
+});
+
+// Drop entries beyond the retention limits; the log is kept oldest first
+const pruneActivity = (activity: ActivityEntry[], now: number): ActivityEntry[] => {
+  const cutoff = now - ACTIVITY_RETENTION_DAYS * DAY;
+  return activity.filter(entry => entry.timestamp >= cutoff).slice(-MAX_ACTIVITY_ENTRIES);
+};
+
+// Append entries to the log of a storage that the caller is about to save
+export const logActivity = (storage: UserStorage, entries: ActivityInput[], now = Date.now()): void => {
+  storage.activity = pruneActivity([
+    ...(storage.activity ?? []),
+    ...entries.map(entry => ({ ...entry, id: generateUuidV7(), timestamp: now })),
+  ], now);
+};
+
+// Record entries for an operation that does not save the metadata itself
+export const recordActivity = async (backend: StorageBackend, user: User, entries: ActivityInput[]): Promise<void> => {
+  const storage = await getUserStorage(backend, user);
+  logActivity(storage, entries);
+  await backend.saveStorage(user, storage);
+};
+
+// Newest first
+export const getActivity = (storage: UserStorage): ActivityEntry[] => {
+  return [...(storage.activity ?? [])].reverse();
+};
+
+export const clearActivity = async (backend: StorageBackend, user: User): Promise<void> => {
+  const storage = await getUserStorage(backend, user);
+  delete storage.activity;
+  await backend.saveStorage(user, storage);
+};
+
+// Live files the user worked with most recently, newest first
+export const getRecentFiles = (storage: UserStorage, limit = 50): FileMetadata[] => {
+  const filesById = new Map(storage.files.map(file => [file.id, file]));
+  const recent = new Map<string, FileMetadata>();
+
+  for (const entry of getActivity(storage)) {
+    const file = entry.fileId ? filesById.get(entry.fileId) : undefined;
+    if (file && RECENT_ACTIONS.includes(entry.action) && !recent.has(file.id)) {
+      recent.set(file.id, file);
+      if (recent.size === limit) break;
+    }
+  }
+
+  return Array.from(recent.values());
+};
@@ -0,0 +1,373 @@
+// ZIP export and import for the drive. Files are decrypted one segment at a time straight into the
+// archive, which is written to disk as it is produced where the browser allows it. Imported archives
+// are extracted into a new folder through the regular upload path, so quotas and encryption apply.
+import type { StorageBackend } from './storageBackend';
+import {
+  User,
+  FileMetadata,
+  UserStorage,
+  getUserStorage,
+  getContentBlobId,
+  getUniqueFileName,
+  openBlobStream
+} from './storageUtils';
+import { createFolder } from './folderUtils';
+import { createUpload, runUpload, cancelUpload } from './uploadUtils';
+import { getFileExtension } from './previewUtils';
+import { ZipSink, createZipWriter, createBlobSink, readZip } from './zipUtils';
+import { recordActivity } from './activityUtils';
+import { StorageError } from './storageErrors';
+import {
+  ROOT_PATH,
+  normalizePath,
+  joinPath,
+  getParentPath,
+  isWithinFolder,
+  validateFolderName
+} from './pathUtils';
+
+export interface ArchiveProgress {
+  done: number;
+  total: number;
+}
+
+export interface ArchiveContents {
+  files: FileMetadata[];
+  folders: string[]; // written as folder entries, so empty folders are kept
+  basePath: string; // entries are stored relative to this folder
+}
+
+export type ArchiveDownloadResult =
+  | { status: 'saved'; skipped: number }
+  | { status: 'cancelled' }
+  | { status: 'too-large'; limit: number }; // the browser can only build archives in memory, up to `limit` bytes
+
+export interface ZipImportResult {
+  folderPath: string;
+  imported: number;
+  skipped: number; // entries with unusable names or damaged data
+}
+
+// Where an archive is written while it is being built
+interface ArchiveTarget {
+  sink: ZipSink;
+  finish: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+// Largest archive built in memory where the browser cannot write to a file as it goes
+export const MAX_IN_MEMORY_ARCHIVE_SIZE = 512 * 1024 * 1024;
+// Headers, names and descriptors added per entry, rounded up generously
+const ZIP_ENTRY_OVERHEAD = 1024;
+
+// Extracted entries have no MIME type of their own
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  css: 'text/css',
+  js: 'application/javascript',
+  json: 'application/json',
+  xml: 'application/xml',
+  zip: 'application/zip',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+// Folder shared by all paths, e.g. "/Documents" for "/Documents/a" and "/Documents/b/c"
+const getCommonFolder = (paths: string[]): string => {
+  if (paths.length === 0) return ROOT_PATH;
+
+  let common = paths[0];
+  for (const path of paths.slice(1)) {
+    while (!isWithinFolder(path, common)) {
+      common = getParentPath(common);
+    }
+  }
+  return common;
+};
+
+// "/Documents/2024" relative to "/Documents" is "2024"
+const toArchivePath = (path: string, basePath: string): string => {
+  return (basePath === ROOT_PATH ? path : path.slice(basePath.length)).slice(1);
+};
+
+export const getSelectionArchive = (files: FileMetadata[]): ArchiveContents => ({
+  files,
+  folders: [],
+  basePath: getCommonFolder(files.map(file => normalizePath(file.path))),
+});
+
+// A folder with everything below it, stored under the folder's own name
+export const getFolderArchive = (storage: UserStorage, folderPath: string): ArchiveContents => ({
+  files: storage.files.filter(file => isWithinFolder(normalizePath(file.path), folderPath)),
+  folders: storage.folders.filter(folder => isWithinFolder(folder, folderPath)),
+  basePath: getParentPath(folderPath),
+});
+
+const getSaveFilePicker = (): SaveFilePicker | undefined => {
+  return (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+};
+
+// Write straight to a file the user picks where supported, otherwise build the archive in memory,
+// up to MAX_IN_MEMORY_ARCHIVE_SIZE, and download it at the end. Returns null if the user cancels the file picker.
+const openArchiveTarget = async (archiveName: string): Promise<ArchiveTarget | null> => {
+  const showSaveFilePicker = getSaveFilePicker();
+
+  if (showSaveFilePicker) {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await showSaveFilePicker({
+        suggestedName: archiveName,
+        types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return null;
+      }
+      throw error;
+    }
+
+    const writable = await handle.createWritable();
+    return {
+      sink: { write: async (chunk) => writable.write(chunk) },
+      finish: () => writable.close(),
+      abort: () => writable.abort(),
+    };
+  }
+
+  const sink = createBlobSink(MAX_IN_MEMORY_ARCHIVE_SIZE);
+  return {
+    sink,
+    finish: async () => {
+      const url = URL.createObjectURL(sink.toBlob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = archiveName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    },
+    abort: async () => undefined,
+  };
+};
+
+// Build a ZIP of the given files and folders. Files whose data is missing are left out and counted.
+export const downloadArchive = async (
+  backend: StorageBackend,
+  user: User,
+  archiveName: string,
+  { files, folders, basePath }: ArchiveContents,
+  onProgress?: (progress: ArchiveProgress) => void
+): Promise<ArchiveDownloadResult> => {
+  // Without a file to write to, the archive has to fit in memory
+  const estimatedSize = [...files, ...folders].length * ZIP_ENTRY_OVERHEAD + files.reduce((total, file) => total + file.size, 0);
+  if (!getSaveFilePicker() && estimatedSize > MAX_IN_MEMORY_ARCHIVE_SIZE) {
+    return { status: 'too-large', limit: MAX_IN_MEMORY_ARCHIVE_SIZE };
+  }
+
+  const target = await openArchiveTarget(archiveName);
+  if (!target) {
+    return { status: 'cancelled' };
+  }
+
+  const zip = createZipWriter(target.sink);
+  const now = Date.now();
+  let skipped = 0;
+
+  try {
+    // Folders carry no timestamps of their own
+    for (const folder of [...folders].sort()) {
+      await zip.addFolder(toArchivePath(folder, basePath), now);
+    }
+
+    for (const [index, file] of files.entries()) {
+      onProgress?.({ done: index, total: files.length });
+
+      const data = await backend.getBlob(user, getContentBlobId(file));
+      if (!data) {
+        skipped++;
+        continue;
+      }
+
+      const path = toArchivePath(joinPath(normalizePath(file.path), file.name), basePath);
+      await zip.add(path, await openBlobStream(data, file), file.lastModified);
+    }
+
+    await zip.close();
+  } catch (error) {
+    await target.abort().catch(() => undefined);
+    throw error;
+  }
+
+  await target.finish();
+
+  const saved = files.length - skipped;
+  await recordActivity(backend, user, [{
+    action: 'download',
+    name: archiveName,
+    path: basePath,
+    detail: `(${saved} ${saved === 1 ? 'file' : 'files'})`,
+  }]).catch(() => undefined);
+
+  return { status: 'saved', skipped };
+};
+
+export const isZipFile = (file: File): boolean => {
+  return ZIP_MIME_TYPES.includes(file.type) || getFileExtension(file.name) === 'zip';
+};
+
+// "photos.zip" is extracted into a folder named "photos"
+export const getArchiveFolderName = (archiveName: string): string => {
+  const name = archiveName.replace(/\.zip$/i, '').trim();
+  return validateFolderName(name) ? 'Archive' : name;
+};
+
+// Names along an entry's path, or null when the path cannot be stored safely, e.g. "../x"
+const getEntrySegments = (path: string): string[] | null => {
+  const segments = path.split(/[\\/]/).map(name => name.trim()).filter(name => name && name !== '.');
+  return segments.length > 0 && segments.every(name => !validateFolderName(name)) ? segments : null;
+};
+
+const getRemainingSpace = async (backend: StorageBackend, user: User): Promise<number> => {
+  const storage = await getUserStorage(backend, user);
+  return storage.totalSpace - storage.usedSpace;
+};
+
+// Create "name", or "name (2)", "name (3)", ... when it is taken
+const createUniqueFolder = async (
+  backend: StorageBackend,
+  user: User,
+  parentPath: string,
+  name: string
+): Promise<string | null> => {
+  const storage = await getUserStorage(backend, user);
+  if (parentPath !== ROOT_PATH && !storage.folders.includes(parentPath)) {
+    return null;
+  }
+
+  let candidate = name;
+  for (let counter = 2; storage.folders.includes(joinPath(parentPath, candidate)); counter++) {
+    candidate = `${name} (${counter})`;
+  }
+
+  return createFolder(backend, user, parentPath, candidate);
+};
+
+// Extract a ZIP archive into a new folder named after it. Returns null if the parent folder is gone.
+// Throws if the file is not a readable ZIP archive, or when an upload fails, e.g. on quota.
+export const importZip = async (
+  backend: StorageBackend,
+  user: User,
+  archive: File,
+  parentPath: string,
+  onProgress?: (progress: ArchiveProgress) => void
+): Promise<ZipImportResult | null> => {
+  const entries = await readZip(archive);
+
+  // Declared sizes are checked before anything is inflated, and opening an entry holds it to its
+  // declared size, so a small archive cannot expand past the quota in memory
+  const declaredSize = entries.reduce((total, entry) => total + entry.size, 0);
+  if (await getRemainingSpace(backend, user) < declaredSize) {
+    throw new StorageError('quota-exceeded', `The contents of ${archive.name} do not fit in the remaining storage space`);
+  }
+
+  const folderPath = await createUniqueFolder(backend, user, parentPath, getArchiveFolderName(archive.name));
+
+  if (!folderPath) {
+    return null;
+  }
+
+  const createdFolders = new Set<string>();
+  const ensureFolder = async (names: string[]): Promise<string> => {
+    let path = folderPath;
+    for (const name of names) {
+      const parent = path;
+      path = joinPath(parent, name);
+      if (!createdFolders.has(path)) {
+        // Null when it already exists, which is fine
+        await createFolder(backend, user, parent, name);
+        createdFolders.add(path);
+      }
+    }
+    return path;
+  };
+
+  // Metadata macOS adds to archives it creates
+  const usableEntries = entries.filter(entry => !entry.path.startsWith('__MACOSX/'));
+  const fileEntries = usableEntries.filter(entry => !entry.isFolder);
+  let imported = 0;
+  let skipped = 0;
+
+  for (const entry of usableEntries.filter(entry => entry.isFolder)) {
+    const segments = getEntrySegments(entry.path);
+    if (segments) {
+      await ensureFolder(segments);
+    } else {
+      skipped++;
+    }
+  }
+
+  for (const [index, entry] of fileEntries.entries()) {
+    onProgress?.({ done: index, total: fileEntries.length });
+
+    const segments = getEntrySegments(entry.path);
+    if (!segments) {
+      skipped++;
+      continue;
+    }
+
+    const storage = await getUserStorage(backend, user);
+    if (storage.usedSpace + entry.size > storage.totalSpace) {
+      throw new StorageError('quota-exceeded', `${segments[segments.length - 1]} does not fit in the remaining storage space`);
+    }
+
+    const data = await entry.open().catch(() => null);
+    if (!data) {
+      skipped++;
+      continue;
+    }
+
+    const folder = await ensureFolder(segments.slice(0, -1));
+    const name = getUniqueFileName(storage, folder, segments[segments.length - 1]);
+    const file = new File([data], name, {
+      type: MIME_TYPES[getFileExtension(name)] ?? '',
+      lastModified: entry.lastModified,
+    });
+
+    const record = await createUpload(backend, user, file, folder);
+    try {
+      await runUpload(backend, user, record);
+    } catch (error) {
+      await cancelUpload(backend, user, record).catch(() => undefined);
+      throw error;
+    }
+    imported++;
+  }
+
+  return { folderPath, imported, skipped };
+};
@@ -0,0 +1,178 @@
+// Adapter that talks to a REST server:
+//   GET/PUT/DELETE {baseUrl}/users/:username/:storageKey/storage
+//   GET        {baseUrl}/users/:username/:storageKey/blobs             (ids and sizes)
+//   GET/PUT/DELETE {baseUrl}/users/:username/:storageKey/blobs/:blobId
+//   GET        {baseUrl}/users/:username/:storageKey/shares
+//   PUT/DELETE {baseUrl}/users/:username/:storageKey/shares/:linkId
+//   GET        {baseUrl}/shares/:linkId
+//   GET        {baseUrl}/shares/:linkId/blob
+//   GET        {baseUrl}/users/:username/:storageKey/user-shares
+//   PUT/DELETE {baseUrl}/users/:username/:storageKey/user-shares/:shareId
+//   GET        {baseUrl}/users/:username/:storageKey/received-shares
+//   GET/DELETE {baseUrl}/users/:username/:storageKey/received-shares/:shareId
+//   GET/POST   {baseUrl}/users/:username/:storageKey/received-shares/:shareId/files
+//   GET        {baseUrl}/users/:username/:storageKey/received-shares/:shareId/blobs/:blobId
+// Links and user shares are written under their owner's path; the server remembers that namespace
+// and serves /shares/:linkId/blob and a recipient's received-shares routes from it. POSTing to
+// .../files sends a form with the JSON `update` and its `blob`, applied with applySharedFileUpdate
+// for editors only; the server answers 404 when the share does not allow the change.
+import { StorageBackend } from '../storageBackend';
+import type { User } from '../storageUtils';
+import { StorageError } from '../storageErrors';
+
+export const createHttpBackend = (baseUrl: string, fetchImpl: typeof fetch = fetch): StorageBackend => {
+  const userUrl = (user: User) =>
+    `${baseUrl.replace(/\/$/, '')}/users/${encodeURIComponent(user.username)}/${encodeURIComponent(user.storageKey)}`;
+
+  const blobUrl = (user: User, blobId: string) =>
+    `${userUrl(user)}/blobs/${encodeURIComponent(blobId)}`;
+
+  const shareUrl = (linkId: string) =>
+    `${baseUrl.replace(/\/$/, '')}/shares/${encodeURIComponent(linkId)}`;
+
+  const receivedShareUrl = (recipient: User, shareId: string) =>
+    `${userUrl(recipient)}/received-shares/${encodeURIComponent(shareId)}`;
+
+  const request = async (url: string, init?: RequestInit): Promise<Response | null> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(url, init);
+    } catch (error) {
+      throw new StorageError('backend-unavailable', 'The storage server could not be reached', { cause: error });
+    }
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (response.status === 413 || response.status === 507) {
+      throw new StorageError('device-full', `Storage server is out of space (${response.status})`);
+    }
+    if (!response.ok) {
+      throw new StorageError('backend-error', `${response.status} for ${init?.method ?? 'GET'} ${url}`);
+    }
+
+    return response;
+  };
+
+  return {
+    kind: 'http',
+
+    loadStorage: async (user) => {
+      const response = await request(`${userUrl(user)}/storage`);
+      return response ? response.json() : null;
+    },
+
+    saveStorage: async (user, storage) => {
+      await request(`${userUrl(user)}/storage`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(storage),
+      });
+    },
+
+    deleteStorage: async (user) => {
+      await request(`${userUrl(user)}/storage`, { method: 'DELETE' });
+    },
+
+    putBlob: async (user, blobId, blob) => {
+      await request(blobUrl(user, blobId), {
+        method: 'PUT',
+        headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+        body: blob,
+      });
+    },
+
+    getBlob: async (user, blobId) => {
+      const response = await request(blobUrl(user, blobId));
+      return response ? response.blob() : null;
+    },
+
+    deleteBlob: async (user, blobId) => {
+      await request(blobUrl(user, blobId), { method: 'DELETE' });
+    },
+
+    listBlobs: async (user) => {
+      const response = await request(`${userUrl(user)}/blobs`);
+      return response ? response.json() : [];
+    },
+
+    putShareLink: async (owner, link) => {
+      await request(`${userUrl(owner)}/shares/${encodeURIComponent(link.id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(link),
+      });
+    },
+
+    getShareLink: async (linkId) => {
+      const response = await request(shareUrl(linkId));
+      return response ? response.json() : null;
+    },
+
+    deleteShareLink: async (owner, linkId) => {
+      await request(`${userUrl(owner)}/shares/${encodeURIComponent(linkId)}`, { method: 'DELETE' });
+    },
+
+    listShareLinks: async (owner) => {
+      const response = await request(`${userUrl(owner)}/shares`);
+      return response ? response.json() : [];
+    },
+
+    getShareLinkBlob: async (linkId) => {
+      const response = await request(`${shareUrl(linkId)}/blob`);
+      return response ? response.blob() : null;
+    },
+
+    putUserShare: async (owner, share) => {
+      await request(`${userUrl(owner)}/user-shares/${encodeURIComponent(share.id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(share),
+      });
+    },
+
+    deleteUserShare: async (owner, shareId) => {
+      await request(`${userUrl(owner)}/user-shares/${encodeURIComponent(shareId)}`, { method: 'DELETE' });
+    },
+
+    listOwnedShares: async (owner) => {
+      const response = await request(`${userUrl(owner)}/user-shares`);
+      return response ? response.json() : [];
+    },
+
+    getReceivedShare: async (recipient, shareId) => {
+      const response = await request(receivedShareUrl(recipient, shareId));
+      return response ? response.json() : null;
+    },
+
+    deleteReceivedShare: async (recipient, shareId) => {
+      await request(receivedShareUrl(recipient, shareId), { method: 'DELETE' });
+    },
+
+    listReceivedShares: async (recipient) => {
+      const response = await request(`${userUrl(recipient)}/received-shares`);
+      return response ? response.json() : [];
+    },
+
+    listSharedFiles: async (recipient, shareId) => {
+      const response = await request(`${receivedShareUrl(recipient, shareId)}/files`);
+      return response ? response.json() : null;
+    },
+
+    getSharedBlob: async (recipient, shareId, blobId) => {
+      const response = await request(`${receivedShareUrl(recipient, shareId)}/blobs/${encodeURIComponent(blobId)}`);
+      return response ? response.blob() : null;
+    },
+
+    updateSharedFiles: async (recipient, shareId, update, blob) => {
+      const form = new FormData();
+      form.append('update', JSON.stringify(update));
+      if (blob) {
+        form.append('blob', blob);
+      }
+
+      const response = await request(`${receivedShareUrl(recipient, shareId)}/files`, { method: 'POST', body: form });
+      return response !== null;
+    },
+  };
+};
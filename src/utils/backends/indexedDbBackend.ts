@@ -0,0 +1,41 @@
+// Adapter that keeps raw blobs in IndexedDB and the small metadata record in localStorage
+import { StorageBackend, NamespaceStore, getStorageRecordKey, getBlobKeyPrefix } from '../storageBackend';
+import { putBlob, getBlob, deleteBlob, listBlobSizes } from '../blobStore';
+import { createLocalShareLinks } from './localShareLinks';
+import { createLocalUserShares } from './localUserShares';
+
+export const createIndexedDbBackend = (): StorageBackend => {
+  const namespaces: NamespaceStore = {
+    loadStorage: async (user) => {
+      const storageData = localStorage.getItem(getStorageRecordKey(user));
+      return storageData ? JSON.parse(storageData) : null;
+    },
+
+    saveStorage: async (user, storage) => {
+      localStorage.setItem(getStorageRecordKey(user), JSON.stringify(storage));
+    },
+
+    deleteStorage: async (user) => {
+      localStorage.removeItem(getStorageRecordKey(user));
+    },
+
+    putBlob: (user, blobId, blob) => putBlob(getBlobKeyPrefix(user) + blobId, blob),
+
+    getBlob: (user, blobId) => getBlob(getBlobKeyPrefix(user) + blobId),
+
+    deleteBlob: (user, blobId) => deleteBlob(getBlobKeyPrefix(user) + blobId),
+
+    listBlobs: async (user) => {
+      const prefix = getBlobKeyPrefix(user);
+      const entries = await listBlobSizes(prefix);
+      return entries.map(({ key, size }) => ({ id: key.slice(prefix.length), size }));
+    },
+  };
+
+  return {
+    kind: 'indexeddb',
+    ...namespaces,
+    ...createLocalShareLinks(namespaces),
+    ...createLocalUserShares(namespaces),
+  };
+};
@@ -0,0 +1,99 @@
+// Share link records kept in localStorage, used by both browser-based adapters. Each record is
+// stored together with its owner's namespace, which only the adapter itself reads.
+import { StorageBackend, NamespaceStore, SHARE_LINK_KEY_PREFIX } from '../storageBackend';
+import { User, getFileBlobIds } from '../storageUtils';
+import { ShareLink, getShareLinkStatus } from '../shareUtils';
+import { StorageError } from '../storageErrors';
+
+type ShareLinkMethods = Pick<
+  StorageBackend,
+  'putShareLink' | 'getShareLink' | 'deleteShareLink' | 'listShareLinks' | 'getShareLinkBlob'
+>;
+
+interface ShareLinkEntry {
+  owner: User;
+  link: ShareLink;
+}
+
+const readEntry = (key: string): ShareLinkEntry | null => {
+  const entry = JSON.parse(localStorage.getItem(key) || 'null');
+
+  // Links from before the owner was kept apart carried the owner inside the record
+  if (entry && !entry.link) {
+    const { owner, ...link } = entry;
+    return { owner, link };
+  }
+
+  return entry;
+};
+
+const writeEntry = (owner: User, link: ShareLink): void => {
+  const entry: ShareLinkEntry = { owner: { username: owner.username, storageKey: owner.storageKey }, link };
+  localStorage.setItem(SHARE_LINK_KEY_PREFIX + link.id, JSON.stringify(entry));
+};
+
+const isSameNamespace = (a: User, b: User): boolean =>
+  a.username === b.username && a.storageKey === b.storageKey;
+
+// `namespaces` is the adapter the links belong to, for reading the shared content
+export const createLocalShareLinks = (namespaces: NamespaceStore): ShareLinkMethods => ({
+  putShareLink: async (owner, link) => {
+    const existing = readEntry(SHARE_LINK_KEY_PREFIX + link.id);
+
+    // Rewriting under a new storage key of the same user is how links follow a key rotation
+    if (existing && existing.owner.username !== owner.username) {
+      throw new StorageError('backend-error', `Share link ${link.id} belongs to another user`);
+    }
+
+    writeEntry(owner, link);
+  },
+
+  getShareLink: async (linkId) => {
+    return readEntry(SHARE_LINK_KEY_PREFIX + linkId)?.link ?? null;
+  },
+
+  deleteShareLink: async (owner, linkId) => {
+    const existing = readEntry(SHARE_LINK_KEY_PREFIX + linkId);
+
+    if (existing && isSameNamespace(existing.owner, owner)) {
+      localStorage.removeItem(SHARE_LINK_KEY_PREFIX + linkId);
+    }
+  },
+
+  listShareLinks: async (owner) => {
+    const links: ShareLink[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(SHARE_LINK_KEY_PREFIX)) {
+        const entry = readEntry(key);
+        if (entry && isSameNamespace(entry.owner, owner)) {
+          links.push(entry.link);
+        }
+      }
+    }
+
+    return links;
+  },
+
+  getShareLinkBlob: async (linkId) => {
+    const entry = readEntry(SHARE_LINK_KEY_PREFIX + linkId);
+
+    if (!entry || getShareLinkStatus(entry.link) !== 'active') {
+      return null;
+    }
+
+    // The shared content must still be part of a live file in the owner's drive
+    const { owner, link } = entry;
+    const file = (await namespaces.loadStorage(owner))?.files.find(f => f.id === link.fileId);
+    const data = file && getFileBlobIds(file).includes(link.blobId)
+      ? await namespaces.getBlob(owner, link.blobId)
+      : null;
+
+    if (data) {
+      writeEntry(owner, { ...link, downloadCount: link.downloadCount + 1 });
+    }
+
+    return data;
+  },
+});
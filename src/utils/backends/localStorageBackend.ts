@@ -0,0 +1,56 @@
+// Adapter that keeps everything in localStorage, with blobs encoded as data URLs
+import { StorageBackend, NamespaceStore, BlobEntry, getStorageRecordKey, getBlobKeyPrefix } from '../storageBackend';
+import { blobToDataUrl, dataUrlToBlob, getDataUrlSize } from '../storageUtils';
+import { createLocalShareLinks } from './localShareLinks';
+import { createLocalUserShares } from './localUserShares';
+
+export const createLocalStorageBackend = (): StorageBackend => {
+  const namespaces: NamespaceStore = {
+    loadStorage: async (user) => {
+      const storageData = localStorage.getItem(getStorageRecordKey(user));
+      return storageData ? JSON.parse(storageData) : null;
+    },
+
+    saveStorage: async (user, storage) => {
+      localStorage.setItem(getStorageRecordKey(user), JSON.stringify(storage));
+    },
+
+    deleteStorage: async (user) => {
+      localStorage.removeItem(getStorageRecordKey(user));
+    },
+
+    putBlob: async (user, blobId, blob) => {
+      localStorage.setItem(getBlobKeyPrefix(user) + blobId, await blobToDataUrl(blob));
+    },
+
+    getBlob: async (user, blobId) => {
+      const dataUrl = localStorage.getItem(getBlobKeyPrefix(user) + blobId);
+      return dataUrl ? dataUrlToBlob(dataUrl) : null;
+    },
+
+    deleteBlob: async (user, blobId) => {
+      localStorage.removeItem(getBlobKeyPrefix(user) + blobId);
+    },
+
+    listBlobs: async (user) => {
+      const prefix = getBlobKeyPrefix(user);
+      const entries: BlobEntry[] = [];
+
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key?.startsWith(prefix)) {
+          entries.push({ id: key.slice(prefix.length), size: getDataUrlSize(localStorage.getItem(key) ?? '') });
+        }
+      }
+
+      return entries;
+    },
+  };
+
+  return {
+    kind: 'local',
+    ...namespaces,
+    ...createLocalShareLinks(namespaces),
+    ...createLocalUserShares(namespaces),
+  };
+};
@@ -0,0 +1,168 @@
+// User share records kept in localStorage, used by both browser-based adapters. Each record is
+// stored together with its owner's namespace, which recipients reach only through the checks below.
+import { StorageBackend, NamespaceStore, USER_SHARE_KEY_PREFIX } from '../storageBackend';
+import { User, getUserStorage, getContentBlobId } from '../storageUtils';
+import { UserShare, getSharedFiles, getUpdateBlobId, applySharedFileUpdate } from '../userShareUtils';
+import { getMaxVersions } from '../versionUtils';
+import { StorageError } from '../storageErrors';
+
+type UserShareMethods = Pick<
+  StorageBackend,
+  | 'putUserShare'
+  | 'deleteUserShare'
+  | 'listOwnedShares'
+  | 'getReceivedShare'
+  | 'deleteReceivedShare'
+  | 'listReceivedShares'
+  | 'listSharedFiles'
+  | 'getSharedBlob'
+  | 'updateSharedFiles'
+>;
+
+interface UserShareEntry {
+  owner: User;
+  share: UserShare;
+}
+
+const readEntry = (key: string): UserShareEntry | null => {
+  const entry = JSON.parse(localStorage.getItem(key) || 'null');
+
+  // Shares from before the owner was kept apart carried the owner inside the record
+  if (entry && !entry.share) {
+    return { owner: entry.owner, share: { ...entry, owner: entry.owner.username } };
+  }
+
+  return entry;
+};
+
+const writeEntry = (owner: User, share: UserShare): void => {
+  const entry: UserShareEntry = { owner: { username: owner.username, storageKey: owner.storageKey }, share };
+  localStorage.setItem(USER_SHARE_KEY_PREFIX + share.id, JSON.stringify(entry));
+};
+
+const isSameNamespace = (a: User, b: User): boolean =>
+  a.username === b.username && a.storageKey === b.storageKey;
+
+const listEntries = (matches: (entry: UserShareEntry) => boolean): UserShareEntry[] => {
+  const entries: UserShareEntry[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(USER_SHARE_KEY_PREFIX)) {
+      const entry = readEntry(key);
+      if (entry && matches(entry)) {
+        entries.push(entry);
+      }
+    }
+  }
+
+  return entries;
+};
+
+// The entry of a share made to `recipient`, optionally requiring a role
+const findReceivedEntry = (recipient: User, shareId: string, role?: UserShare['role']): UserShareEntry | null => {
+  const entry = readEntry(USER_SHARE_KEY_PREFIX + shareId);
+
+  if (!entry || entry.share.recipient !== recipient.username || (role && entry.share.role !== role)) {
+    return null;
+  }
+
+  return entry;
+};
+
+// `namespaces` is the adapter the shares belong to, for reading and updating the shared files
+export const createLocalUserShares = (namespaces: NamespaceStore): UserShareMethods => ({
+  putUserShare: async (owner, share) => {
+    const existing = readEntry(USER_SHARE_KEY_PREFIX + share.id);
+
+    // Rewriting under a new storage key of the same user is how shares follow a key rotation
+    if (existing && existing.owner.username !== owner.username) {
+      throw new StorageError('backend-error', `Share ${share.id} belongs to another user`);
+    }
+
+    writeEntry(owner, share);
+  },
+
+  deleteUserShare: async (owner, shareId) => {
+    const existing = readEntry(USER_SHARE_KEY_PREFIX + shareId);
+
+    if (existing && isSameNamespace(existing.owner, owner)) {
+      localStorage.removeItem(USER_SHARE_KEY_PREFIX + shareId);
+    }
+  },
+
+  listOwnedShares: async (owner) => {
+    return listEntries(entry => isSameNamespace(entry.owner, owner)).map(entry => entry.share);
+  },
+
+  getReceivedShare: async (recipient, shareId) => {
+    return findReceivedEntry(recipient, shareId)?.share ?? null;
+  },
+
+  deleteReceivedShare: async (recipient, shareId) => {
+    if (findReceivedEntry(recipient, shareId)) {
+      localStorage.removeItem(USER_SHARE_KEY_PREFIX + shareId);
+    }
+  },
+
+  listReceivedShares: async (recipient) => {
+    return listEntries(entry => entry.share.recipient === recipient.username).map(entry => entry.share);
+  },
+
+  listSharedFiles: async (recipient, shareId) => {
+    const entry = findReceivedEntry(recipient, shareId);
+    return entry && getSharedFiles(await getUserStorage(namespaces, entry.owner), entry.share);
+  },
+
+  getSharedBlob: async (recipient, shareId, blobId) => {
+    const entry = findReceivedEntry(recipient, shareId);
+
+    if (!entry) {
+      return null;
+    }
+
+    const storage = await getUserStorage(namespaces, entry.owner);
+    if (!getSharedFiles(storage, entry.share).some(file => getContentBlobId(file) === blobId)) {
+      return null;
+    }
+
+    return namespaces.getBlob(entry.owner, blobId);
+  },
+
+  updateSharedFiles: async (recipient, shareId, update, blob) => {
+    const entry = findReceivedEntry(recipient, shareId, 'editor');
+    const blobId = getUpdateBlobId(update);
+
+    if (!entry || (blobId && !blob)) {
+      return false;
+    }
+
+    const { owner, share } = entry;
+    const storage = await getUserStorage(namespaces, owner);
+    const evictedBlobIds = applySharedFileUpdate(storage, share, update, getMaxVersions(owner.username));
+
+    if (!evictedBlobIds) {
+      return false;
+    }
+
+    if (blobId && blob) {
+      await namespaces.putBlob(owner, blobId, blob);
+    }
+    try {
+      await namespaces.saveStorage(owner, storage);
+    } catch (error) {
+      if (blobId) {
+        await namespaces.deleteBlob(owner, blobId).catch(() => undefined);
+      }
+      throw error;
+    }
+    writeEntry(owner, share);
+
+    // Dropped versions and the outdated thumbnail are only clutter from here on
+    for (const evictedBlobId of evictedBlobIds) {
+      await namespaces.deleteBlob(owner, evictedBlobId).catch(() => undefined);
+    }
+
+    return true;
+  },
+});
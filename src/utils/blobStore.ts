@@ -0,0 +1,99 @@
+// IndexedDB-backed store for raw file blobs and in-progress upload records
+
+const DB_NAME = 'keydrive_vault';
+const DB_VERSION = 2;
+const BLOB_STORE = 'blobs';
+const UPLOAD_STORE = 'uploads';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open (and upgrade if needed) the vault database, reusing a single connection
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE);
+        }
+        if (!db.objectStoreNames.contains(UPLOAD_STORE)) {
+          db.createObjectStore(UPLOAD_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = BLOB_STORE
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const putBlob = async (key: string, blob: Blob): Promise<void> => {
+  await runRequest('readwrite', store => store.put(blob, key));
+};
+
+export const getBlob = async (key: string): Promise<Blob | null> => {
+  const blob = await runRequest<Blob | undefined>('readonly', store => store.get(key));
+  return blob ?? null;
+};
+
+export const deleteBlob = async (key: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(key));
+};
+
+// List every stored key that starts with the given prefix, with the size of its blob. The cursor
+// only hands out blob references, so no content is read.
+export const listBlobSizes = async (prefix: string): Promise<{ key: string; size: number }[]> => {
+  const db = await openDatabase();
+  const range = IDBKeyRange.bound(prefix, prefix + '\uffff');
+  const entries: { key: string; size: number }[] = [];
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BLOB_STORE, 'readonly');
+    const request = transaction.objectStore(BLOB_STORE).openCursor(range);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        entries.push({ key: String(cursor.key), size: (cursor.value as Blob).size });
+        cursor.continue();
+      }
+    };
+    transaction.oncomplete = () => resolve(entries);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Upload records always stay in the browser, whichever backend receives the chunks
+export const putUploadRecord = async <T extends { id: string }>(record: T): Promise<void> => {
+  await runRequest('readwrite', store => store.put(record), UPLOAD_STORE);
+};
+
+export const getUploadRecords = <T>(): Promise<T[]> => {
+  return runRequest<T[]>('readonly', store => store.getAll(), UPLOAD_STORE);
+};
+
+export const deleteUploadRecord = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id), UPLOAD_STORE);
+};
@@ -0,0 +1,125 @@
+// Sorting and filtering in the file browser. The choices are kept on the account, so they
+// follow the user between sessions.
+import { FileMetadata, findStoredUser, updateStoredUser } from './storageUtils';
+import { getFileExtension, getCodeLanguage } from './previewUtils';
+
+export type SortField = 'name' | 'size' | 'type' | 'modified';
+export type SortDirection = 'asc' | 'desc';
+export type TypeCategory = 'image' | 'video' | 'audio' | 'document' | 'code' | 'archive' | 'other';
+export type SizeRange = 'any' | 'small' | 'medium' | 'large';
+export type DateRange = 'any' | 'day' | 'week' | 'month' | 'year';
+
+export interface BrowsePreferences {
+  sortField: SortField;
+  sortDirection: SortDirection;
+  types: TypeCategory[]; // empty shows every type
+  size: SizeRange;
+  modified: DateRange; // how recently files were last modified
+}
+
+export const DEFAULT_BROWSE_PREFERENCES: BrowsePreferences = {
+  sortField: 'name',
+  sortDirection: 'asc',
+  types: [],
+  size: 'any',
+  modified: 'any',
+};
+
+export const TYPE_CATEGORIES: TypeCategory[] = ['image', 'video', 'audio', 'document', 'code', 'archive', 'other'];
+
+const MB = 1024 * 1024;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Upper bounds are exclusive
+export const SIZE_RANGES: Record<Exclude<SizeRange, 'any'>, { min: number; max: number }> = {
+  small: { min: 0, max: MB },
+  medium: { min: MB, max: 100 * MB },
+  large: { min: 100 * MB, max: Infinity },
+};
+
+export const DATE_RANGE_DAYS: Record<Exclude<DateRange, 'any'>, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+const ARCHIVE_EXTENSIONS = ['zip', 'tar', 'gz', 'tgz', 'bz2', 'xz', '7z', 'rar'];
+const DOCUMENT_EXTENSIONS = ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'ods', 'odp', 'rtf', 'txt', 'md', 'csv'];
+
+export const getTypeCategory = (file: Pick<FileMetadata, 'name' | 'type'>): TypeCategory => {
+  const extension = getFileExtension(file.name);
+
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type.startsWith('audio/')) return 'audio';
+  if (ARCHIVE_EXTENSIONS.includes(extension)) return 'archive';
+  if (DOCUMENT_EXTENSIONS.includes(extension) || file.type === 'application/pdf') return 'document';
+  if (getCodeLanguage(file.name)) return 'code';
+  return 'other';
+};
+
+// Shown in the type column, e.g. "PDF"; files without an extension are just "File"
+export const getTypeLabel = (file: Pick<FileMetadata, 'name'>): string => {
+  return getFileExtension(file.name).toUpperCase() || 'File';
+};
+
+export const hasActiveFilters = (preferences: BrowsePreferences): boolean => {
+  return preferences.types.length > 0 || preferences.size !== 'any' || preferences.modified !== 'any';
+};
+
+export const matchesFilters = (file: FileMetadata, preferences: BrowsePreferences, now = Date.now()): boolean => {
+  if (preferences.types.length > 0 && !preferences.types.includes(getTypeCategory(file))) {
+    return false;
+  }
+
+  if (preferences.size !== 'any') {
+    const { min, max } = SIZE_RANGES[preferences.size];
+    if (file.size < min || file.size >= max) return false;
+  }
+
+  if (preferences.modified !== 'any' && file.lastModified < now - DATE_RANGE_DAYS[preferences.modified] * DAY) {
+    return false;
+  }
+
+  return true;
+};
+
+const compareNames = (a: string, b: string): number => {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+// Returns a sorted copy; ties are broken by name
+export const sortFiles = (files: FileMetadata[], field: SortField, direction: SortDirection): FileMetadata[] => {
+  const compare = (a: FileMetadata, b: FileMetadata): number => {
+    switch (field) {
+      case 'size':
+        return a.size - b.size;
+      case 'type':
+        return compareNames(getTypeLabel(a), getTypeLabel(b));
+      case 'modified':
+        return a.lastModified - b.lastModified;
+      default:
+        return 0;
+    }
+  };
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return [...files].sort((a, b) => sign * (compare(a, b) || compareNames(a.name, b.name)));
+};
+
+// Folders have no size, type or date, so they are only ever ordered by name
+export const sortFolders = (folders: string[], field: SortField, direction: SortDirection): string[] => {
+  const sign = field === 'name' && direction === 'desc' ? -1 : 1;
+  return [...folders].sort((a, b) => sign * compareNames(a, b));
+};
+
+export const getBrowsePreferences = (username: string): BrowsePreferences => {
+  return { ...DEFAULT_BROWSE_PREFERENCES, ...findStoredUser(username)?.browsePreferences };
+};
+
+export const setBrowsePreferences = (username: string, preferences: BrowsePreferences): boolean => {
+  return updateStoredUser(username, user => {
+    user.browsePreferences = preferences;
+  });
+};
@@ -0,0 +1,259 @@
+// WebCrypto helpers used for credential storage and file encryption
+
+export const PASSWORD_HASH_ITERATIONS = 310000;
+const PASSWORD_HASH_BITS = 256;
+const SALT_BYTES = 16;
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// URL-safe base64 without padding, for values that end up in links
+export const bytesToBase64Url = (bytes: Uint8Array): string => {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const generateSalt = (): string => {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+};
+
+// Derive a PBKDF2-SHA-256 hash of the password, returned as base64
+export const hashPassword = async (password: string, salt: string, iterations: number): Promise<string> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToBytes(salt), iterations },
+    keyMaterial,
+    PASSWORD_HASH_BITS
+  );
+  return bytesToBase64(new Uint8Array(bits));
+};
+
+// Hex string of the given number of cryptographically random bytes
+export const randomHex = (byteLength: number): string => {
+  return Array.from(crypto.getRandomValues(new Uint8Array(byteLength)), byte =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+};
+
+// RFC 9562 UUIDv7: 48-bit millisecond timestamp followed by random bits, so ids sort by creation time
+export const generateUuidV7 = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const timestamp = Date.now();
+
+  for (let i = 0; i < 6; i++) {
+    bytes[i] = Math.floor(timestamp / 2 ** (8 * (5 - i))) & 0xff;
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x70; // version 7
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC variant
+
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// Compare two strings without short-circuiting on the first mismatch
+export const constantTimeEqual = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+// File encryption
+// Files are split into fixed-size segments, each sealed with AES-GCM under a per-file data key.
+// A stored segment is laid out as [12-byte IV][ciphertext + 16-byte tag].
+export const ENCRYPTION_SEGMENT_SIZE = 1024 * 1024; // 1MB of plaintext per segment
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export const getEncryptedSegmentSize = (segmentSize: number): number =>
+  IV_BYTES + segmentSize + TAG_BYTES;
+
+// Stored size of a file of the given plaintext size
+export const getEncryptedSize = (size: number, segmentSize = ENCRYPTION_SEGMENT_SIZE): number =>
+  size + Math.max(1, Math.ceil(size / segmentSize)) * (IV_BYTES + TAG_BYTES);
+
+// Derive the key-wrapping master key from the user's password
+export const deriveMasterKey = async (password: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToBytes(salt), iterations },
+    keyMaterial,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+export const generateFileKey = (): Promise<CryptoKey> => {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+};
+
+export const wrapFileKey = async (fileKey: CryptoKey, wrappingKey: CryptoKey): Promise<string> => {
+  const wrapped = await crypto.subtle.wrapKey('raw', fileKey, wrappingKey, 'AES-KW');
+  return bytesToBase64(new Uint8Array(wrapped));
+};
+
+export const unwrapFileKey = (wrappedKey: string, wrappingKey: CryptoKey): Promise<CryptoKey> => {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    base64ToBytes(wrappedKey),
+    wrappingKey,
+    'AES-KW',
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// The segment index is authenticated so segments cannot be reordered or swapped between positions
+const segmentAdditionalData = (index: number): Uint8Array => {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, index);
+  return data;
+};
+
+export const encryptSegment = async (plaintext: Blob, fileKey: CryptoKey, index: number): Promise<Blob> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: segmentAdditionalData(index) },
+    fileKey,
+    await plaintext.arrayBuffer()
+  );
+  return new Blob([iv, ciphertext]);
+};
+
+export const decryptSegment = async (segment: Blob, fileKey: CryptoKey, index: number): Promise<ArrayBuffer> => {
+  const bytes = new Uint8Array(await segment.arrayBuffer());
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES), additionalData: segmentAdditionalData(index) },
+    fileKey,
+    bytes.slice(IV_BYTES)
+  );
+};
+
+export const encryptBlob = async (blob: Blob, fileKey: CryptoKey, segmentSize = ENCRYPTION_SEGMENT_SIZE): Promise<Blob> => {
+  const segments: Blob[] = [];
+  for (let offset = 0, index = 0; offset < blob.size || index === 0; offset += segmentSize, index++) {
+    segments.push(await encryptSegment(blob.slice(offset, offset + segmentSize), fileKey, index));
+  }
+  return new Blob(segments, { type: 'application/octet-stream' });
+};
+
+export const decryptBlob = async (
+  blob: Blob,
+  fileKey: CryptoKey,
+  type: string,
+  segmentSize = ENCRYPTION_SEGMENT_SIZE
+): Promise<Blob> => {
+  const encryptedSegmentSize = getEncryptedSegmentSize(segmentSize);
+  const parts: ArrayBuffer[] = [];
+  for (let offset = 0, index = 0; offset < blob.size; offset += encryptedSegmentSize, index++) {
+    parts.push(await decryptSegment(blob.slice(offset, offset + encryptedSegmentSize), fileKey, index));
+  }
+  return new Blob(parts, { type });
+};
+
+// Decrypt one segment per read, so large files can be written out without holding the plaintext
+export const decryptStream = (
+  blob: Blob,
+  fileKey: CryptoKey,
+  segmentSize = ENCRYPTION_SEGMENT_SIZE
+): ReadableStream<Uint8Array> => {
+  const encryptedSegmentSize = getEncryptedSegmentSize(segmentSize);
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      const offset = index * encryptedSegmentSize;
+      if (offset >= blob.size) {
+        controller.close();
+        return;
+      }
+      const segment = await decryptSegment(blob.slice(offset, offset + encryptedSegmentSize), fileKey, index);
+      index++;
+      controller.enqueue(new Uint8Array(segment));
+    },
+  });
+};
+
+// Key pairs for sharing between users
+// A file's data key is wrapped (RSA-OAEP) with the recipient's public key, so only they can open it.
+const KEY_PAIR_ALGORITHM: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+};
+
+export const generateKeyPair = (): Promise<CryptoKeyPair> => {
+  return crypto.subtle.generateKey(KEY_PAIR_ALGORITHM, true, ['wrapKey', 'unwrapKey']);
+};
+
+export const exportPublicKey = async (publicKey: CryptoKey): Promise<string> => {
+  return bytesToBase64(new Uint8Array(await crypto.subtle.exportKey('spki', publicKey)));
+};
+
+export const importPublicKey = (publicKey: string): Promise<CryptoKey> => {
+  return crypto.subtle.importKey('spki', base64ToBytes(publicKey), KEY_PAIR_ALGORITHM, false, ['wrapKey']);
+};
+
+export const exportPrivateKey = async (privateKey: CryptoKey): Promise<Uint8Array> => {
+  return new Uint8Array(await crypto.subtle.exportKey('pkcs8', privateKey));
+};
+
+export const importPrivateKey = (pkcs8: ArrayBuffer): Promise<CryptoKey> => {
+  return crypto.subtle.importKey('pkcs8', pkcs8, KEY_PAIR_ALGORITHM, false, ['unwrapKey']);
+};
+
+export const wrapKeyForPublicKey = async (fileKey: CryptoKey, publicKey: CryptoKey): Promise<string> => {
+  const wrapped = await crypto.subtle.wrapKey('raw', fileKey, publicKey, { name: 'RSA-OAEP' });
+  return bytesToBase64(new Uint8Array(wrapped));
+};
+
+export const unwrapKeyWithPrivateKey = (wrappedKey: string, privateKey: CryptoKey): Promise<CryptoKey> => {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    base64ToBytes(wrappedKey),
+    privateKey,
+    { name: 'RSA-OAEP' },
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+};
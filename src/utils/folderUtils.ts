@@ -0,0 +1,218 @@
+// Folder management on top of the flat file list in UserStorage
+import type { StorageBackend } from './storageBackend';
+import { User, UserStorage, FileMetadata, getUserStorage, getUniqueFileName } from './storageUtils';
+import { trashFiles } from './trashUtils';
+import { moveFolderShares } from './userShareUtils';
+import { logActivity, describeFile } from './activityUtils';
+import {
+  ROOT_PATH,
+  normalizePath,
+  joinPath,
+  getParentPath,
+  getFolderName,
+  isWithinFolder,
+  getPathSegments,
+  validateFolderName
+} from './pathUtils';
+
+// Where a moved file was before the move, so the move can be undone
+export interface FileMove {
+  fileId: string;
+  fromPath: string;
+  fromName: string;
+}
+
+const folderExists = (storage: UserStorage, path: string): boolean => {
+  return path === ROOT_PATH || storage.folders.includes(path);
+};
+
+// Rewrite a folder and everything below it to live under a new path. Trashed files that were
+// deleted from inside it follow too, so restoring them puts them back in the folder's new place.
+const relocateFolder = (storage: UserStorage, fromPath: string, toPath: string): void => {
+  const rebase = (path: string) => toPath + path.slice(fromPath.length);
+
+  storage.folders = storage.folders.map(folder =>
+    isWithinFolder(folder, fromPath) ? rebase(folder) : folder
+  );
+  [...storage.files, ...storage.trash].forEach(file => {
+    const filePath = normalizePath(file.path);
+    if (isWithinFolder(filePath, fromPath)) {
+      file.path = rebase(filePath);
+    }
+  });
+};
+
+// Returns the new folder's path, or null if the name is invalid or already taken
+export const createFolder = async (
+  backend: StorageBackend,
+  user: User,
+  parentPath: string,
+  name: string
+): Promise<string | null> => {
+  if (validateFolderName(name)) {
+    return null;
+  }
+
+  const storage = await getUserStorage(backend, user);
+  const path = joinPath(parentPath, name.trim());
+
+  if (!folderExists(storage, parentPath) || folderExists(storage, path)) {
+    return null;
+  }
+
+  storage.folders.push(path);
+  await backend.saveStorage(user, storage);
+
+  return path;
+};
+
+export const renameFolder = async (
+  backend: StorageBackend,
+  user: User,
+  path: string,
+  newName: string
+): Promise<string | null> => {
+  if (path === ROOT_PATH || validateFolderName(newName)) {
+    return null;
+  }
+
+  const storage = await getUserStorage(backend, user);
+  const newPath = joinPath(getParentPath(path), newName.trim());
+
+  if (!folderExists(storage, path) || (newPath !== path && folderExists(storage, newPath))) {
+    return null;
+  }
+
+  relocateFolder(storage, path, newPath);
+  logActivity(storage, [{ action: 'rename', name: getFolderName(path), path: newPath, isFolder: true, detail: newName.trim() }]);
+  await backend.saveStorage(user, storage);
+  await moveFolderShares(backend, user, path, newPath);
+
+  return newPath;
+};
+
+export const moveFolder = async (
+  backend: StorageBackend,
+  user: User,
+  path: string,
+  destinationPath: string
+): Promise<string | null> => {
+  const storage = await getUserStorage(backend, user);
+  const newPath = joinPath(destinationPath, getFolderName(path));
+
+  // A folder cannot be moved into itself or one of its own subfolders
+  if (
+    path === ROOT_PATH ||
+    !folderExists(storage, path) ||
+    !folderExists(storage, destinationPath) ||
+    isWithinFolder(destinationPath, path)
+  ) {
+    return null;
+  }
+
+  if (newPath === path) {
+    return path;
+  }
+
+  if (folderExists(storage, newPath)) {
+    return null;
+  }
+
+  relocateFolder(storage, path, newPath);
+  logActivity(storage, [{ action: 'move', name: getFolderName(path), path: newPath, isFolder: true, detail: destinationPath }]);
+  await backend.saveStorage(user, storage);
+  await moveFolderShares(backend, user, path, newPath);
+
+  return newPath;
+};
+
+// Move files into another folder; a file whose name is taken there gets a "name (2)" style name.
+// Files already in the destination are left alone. Returns the moves that were made, for
+// undoFileMoves, or null if the destination does not exist.
+export const moveFiles = async (
+  backend: StorageBackend,
+  user: User,
+  fileIds: string[],
+  destinationPath: string
+): Promise<FileMove[] | null> => {
+  const storage = await getUserStorage(backend, user);
+
+  if (!folderExists(storage, destinationPath)) {
+    return null;
+  }
+
+  const moves: FileMove[] = [];
+  const moved: FileMetadata[] = [];
+  for (const file of storage.files.filter(f => fileIds.includes(f.id))) {
+    const fromPath = normalizePath(file.path);
+    if (fromPath !== destinationPath) {
+      moves.push({ fileId: file.id, fromPath, fromName: file.name });
+      file.name = getUniqueFileName(storage, destinationPath, file.name);
+      file.path = destinationPath;
+      moved.push(file);
+    }
+  }
+
+  if (moved.length > 0) {
+    logActivity(storage, moved.map(file => ({ action: 'move' as const, ...describeFile(file), detail: destinationPath })));
+    await backend.saveStorage(user, storage);
+  }
+
+  return moves;
+};
+
+// Put moved files back where they came from, recreating folders that were deleted since.
+// A file gets its old name back unless another file has taken it. Files that were deleted or
+// are already back in place are skipped; returns how many were moved back.
+export const undoFileMoves = async (backend: StorageBackend, user: User, moves: FileMove[]): Promise<number> => {
+  const storage = await getUserStorage(backend, user);
+  const restored: FileMetadata[] = [];
+
+  for (const move of moves) {
+    const file = storage.files.find(f => f.id === move.fileId);
+    if (!file || normalizePath(file.path) === move.fromPath) {
+      continue;
+    }
+
+    for (const segment of getPathSegments(move.fromPath)) {
+      if (!storage.folders.includes(segment.path)) {
+        storage.folders.push(segment.path);
+      }
+    }
+
+    file.name = getUniqueFileName(storage, move.fromPath, move.fromName);
+    file.path = move.fromPath;
+    restored.push(file);
+  }
+
+  if (restored.length > 0) {
+    logActivity(storage, restored.map(file => ({ action: 'move' as const, ...describeFile(file), detail: normalizePath(file.path) })));
+    await backend.saveStorage(user, storage);
+  }
+
+  return restored.length;
+};
+
+// Delete a folder and its subfolders; the files inside are moved to the trash
+export const deleteFolder = async (backend: StorageBackend, user: User, path: string): Promise<boolean> => {
+  const storage = await getUserStorage(backend, user);
+
+  if (path === ROOT_PATH || !folderExists(storage, path)) {
+    return false;
+  }
+
+  const files = storage.files.filter(file => isWithinFolder(normalizePath(file.path), path));
+  trashFiles(storage, files);
+  storage.folders = storage.folders.filter(folder => !isWithinFolder(folder, path));
+  logActivity(storage, [{
+    action: 'trash',
+    name: getFolderName(path),
+    path,
+    isFolder: true,
+    detail: `and its ${files.length} ${files.length === 1 ? 'file' : 'files'}`,
+  }]);
+
+  await backend.saveStorage(user, storage);
+
+  return true;
+};
@@ -0,0 +1,80 @@
+// Helpers for the folder paths stored in FileMetadata.path and UserStorage.folders.
+// Paths are absolute and slash-separated, e.g. '/', '/Documents', '/Documents/2024'.
+
+export const ROOT_PATH = '/';
+export const MAX_FOLDER_NAME_LENGTH = 255;
+export const MAX_FILE_NAME_LENGTH = 255;
+
+// Files stored before folders existed have no path and live in the root
+export const normalizePath = (path?: string): string => {
+  if (!path) return ROOT_PATH;
+  const segments = path.split('/').filter(Boolean);
+  return segments.length > 0 ? `/${segments.join('/')}` : ROOT_PATH;
+};
+
+export const joinPath = (parentPath: string, name: string): string => {
+  return parentPath === ROOT_PATH ? `/${name}` : `${parentPath}/${name}`;
+};
+
+export const getParentPath = (path: string): string => {
+  const index = path.lastIndexOf('/');
+  return index <= 0 ? ROOT_PATH : path.slice(0, index);
+};
+
+export const getFolderName = (path: string): string => {
+  return path.slice(path.lastIndexOf('/') + 1);
+};
+
+// A folder as shown to the user, e.g. "My Drive/Projects/2024"
+export const formatLocation = (path: string): string => {
+  return path === ROOT_PATH ? 'My Drive' : `My Drive${path}`;
+};
+
+// True when path is the folder itself or anything nested below it
+export const isWithinFolder = (path: string, folderPath: string): boolean => {
+  return folderPath === ROOT_PATH || path === folderPath || path.startsWith(`${folderPath}/`);
+};
+
+export const getChildFolders = (folders: string[], parentPath: string): string[] => {
+  return folders.filter(folder => folder !== ROOT_PATH && getParentPath(folder) === parentPath);
+};
+
+export const getPathSegments = (path: string): { name: string; path: string }[] => {
+  const segments: { name: string; path: string }[] = [];
+  let current = ROOT_PATH;
+
+  for (const name of path.split('/').filter(Boolean)) {
+    current = joinPath(current, name);
+    segments.push({ name, path: current });
+  }
+
+  return segments;
+};
+
+// Characters that are not allowed in names on common file systems, so downloads keep their names
+const FORBIDDEN_NAME_CHARACTERS = /[\\/:*?"<>|]/;
+
+const hasControlCharacter = (name: string): boolean => {
+  return Array.from(name).some(char => char.charCodeAt(0) < 0x20);
+};
+
+// Shared rules for folder and file names; `label` starts each message
+const validateName = (name: string, label: string, maxLength: number): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return `${label} cannot be empty`;
+  if (trimmed.includes('/')) return `${label} cannot contain "/"`;
+  if (FORBIDDEN_NAME_CHARACTERS.test(trimmed) || hasControlCharacter(trimmed)) return `${label} cannot contain \\ : * ? " < > | or control characters`;
+  if (trimmed === '.' || trimmed === '..') return `${label} is reserved`;
+  if (trimmed.endsWith('.')) return `${label} cannot end with "."`;
+  if (trimmed.length > maxLength) return `${label} cannot exceed ${maxLength} characters`;
+  return null;
+};
+
+// Returns an error message, or null when the name can be used
+export const validateFolderName = (name: string): string | null => {
+  return validateName(name, 'Folder name', MAX_FOLDER_NAME_LENGTH);
+};
+
+export const validateFileName = (name: string): string | null => {
+  return validateName(name, 'File name', MAX_FILE_NAME_LENGTH);
+};
@@ -0,0 +1,95 @@
+// Decide how a stored file can be shown in the browser
+import type { FileMetadata } from './storageUtils';
+
+export type PreviewKind = 'image' | 'video' | 'audio' | 'pdf' | 'text';
+
+// Text previews beyond this size are truncated to keep highlighting responsive
+export const MAX_TEXT_PREVIEW_BYTES = 512 * 1024;
+
+// File extensions mapped to highlight.js language names
+const CODE_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  json: 'json',
+  html: 'xml',
+  htm: 'xml',
+  xml: 'xml',
+  svg: 'xml',
+  css: 'css',
+  scss: 'scss',
+  less: 'less',
+  md: 'markdown',
+  py: 'python',
+  rb: 'ruby',
+  java: 'java',
+  kt: 'kotlin',
+  go: 'go',
+  rs: 'rust',
+  c: 'c',
+  h: 'c',
+  cpp: 'cpp',
+  hpp: 'cpp',
+  cs: 'csharp',
+  php: 'php',
+  swift: 'swift',
+  sh: 'bash',
+  bash: 'bash',
+  yml: 'yaml',
+  yaml: 'yaml',
+  sql: 'sql',
+  ini: 'ini',
+  toml: 'ini',
+};
+
+const PLAIN_TEXT_EXTENSIONS = ['txt', 'log', 'csv', 'tsv', 'env', 'conf'];
+
+const TEXT_MIME_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/x-sh',
+  'application/sql',
+];
+
+export const getFileExtension = (name: string): string => {
+  const index = name.lastIndexOf('.');
+  return index > 0 ? name.slice(index + 1).toLowerCase() : '';
+};
+
+// A warning when a rename changes or drops the extension, which decides how the file is opened
+export const getExtensionChangeWarning = (oldName: string, newName: string): string | null => {
+  const oldExtension = getFileExtension(oldName);
+  const newExtension = getFileExtension(newName.trim());
+
+  if (oldExtension === newExtension) {
+    return null;
+  }
+  if (!newExtension) {
+    return `Removing the ".${oldExtension}" extension may stop the file from opening correctly`;
+  }
+  return oldExtension
+    ? `Changing the extension from ".${oldExtension}" to ".${newExtension}" may stop the file from opening correctly`
+    : `Adding the ".${newExtension}" extension changes how the file is opened`;
+};
+
+export const getCodeLanguage = (name: string): string | null => {
+  return CODE_LANGUAGES[getFileExtension(name)] ?? null;
+};
+
+export const getPreviewKind = (file: Pick<FileMetadata, 'name' | 'type'>): PreviewKind | null => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type.startsWith('audio/')) return 'audio';
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type.startsWith('text/') || TEXT_MIME_TYPES.includes(file.type)) return 'text';
+
+  // Many code files are uploaded without a MIME type
+  const extension = getFileExtension(file.name);
+  if (extension in CODE_LANGUAGES || PLAIN_TEXT_EXTENSIONS.includes(extension)) return 'text';
+
+  return null;
+};
@@ -0,0 +1,96 @@
+// Plan quotas and space accounting against the real limits of the browser's storage
+import { findStoredUser, updateStoredUser } from './storageUtils';
+
+export interface DeviceStorageEstimate {
+  usage: number; // bytes used by this origin
+  quota: number; // bytes this origin may use
+  available: number;
+}
+
+// Reads navigator.storage.estimate(); null where the browser does not support it
+export const getDeviceStorageEstimate = async (): Promise<DeviceStorageEstimate | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota, available: Math.max(0, quota - usage) };
+  } catch {
+    return null;
+  }
+};
+
+// Plan tiers and per-user quotas
+export type PlanTier = 'free' | 'pro' | 'team';
+
+export interface PlanDefinition {
+  label: string;
+  quota: number; // in bytes
+}
+
+const GB = 1024 ** 3;
+const TB = 1024 ** 4;
+
+export const PLAN_TIERS: Record<PlanTier, PlanDefinition> = {
+  free: { label: 'Free', quota: 15 * GB },
+  pro: { label: 'Pro', quota: 1 * TB },
+  team: { label: 'Team', quota: 5 * TB },
+};
+
+export const DEFAULT_PLAN: PlanTier = 'free';
+// Accounts created before plans existed had a fixed 1TB limit
+const LEGACY_PLAN: PlanTier = 'pro';
+export const DEFAULT_WARNING_THRESHOLDS = [80, 95];
+
+export const getUserPlan = (username: string): PlanTier => {
+  return findStoredUser(username)?.plan ?? LEGACY_PLAN;
+};
+
+export const getUserQuota = (username: string): number => {
+  const user = findStoredUser(username);
+  return user?.quotaOverride ?? PLAN_TIERS[user?.plan ?? LEGACY_PLAN].quota;
+};
+
+export const getQuotaWarningThresholds = (username: string): number[] => {
+  return findStoredUser(username)?.quotaWarningThresholds ?? DEFAULT_WARNING_THRESHOLDS;
+};
+
+// Admin API: move a user to another plan; any quota override is kept
+export const setUserPlan = (username: string, plan: PlanTier): boolean => {
+  return updateStoredUser(username, user => {
+    user.plan = plan;
+  });
+};
+
+// Admin API: give a user a custom quota in bytes, or pass null to fall back to the plan's quota
+export const setUserQuota = (username: string, quota: number | null): boolean => {
+  if (quota !== null && (!Number.isFinite(quota) || quota < 0)) {
+    return false;
+  }
+
+  return updateStoredUser(username, user => {
+    if (quota === null) {
+      delete user.quotaOverride;
+    } else {
+      user.quotaOverride = quota;
+    }
+  });
+};
+
+export const setQuotaWarningThresholds = (username: string, thresholds: number[]): boolean => {
+  if (thresholds.some(threshold => !(threshold > 0 && threshold <= 100))) {
+    return false;
+  }
+
+  return updateStoredUser(username, user => {
+    user.quotaWarningThresholds = [...thresholds].sort((a, b) => a - b);
+  });
+};
+
+// Highest threshold the usage has reached, or null when below all of them
+export const getReachedThreshold = (usedSpace: number, totalSpace: number, thresholds: number[]): number | null => {
+  const percentage = totalSpace > 0 ? (usedSpace / totalSpace) * 100 : 100;
+  const reached = thresholds.filter(threshold => percentage >= threshold);
+  return reached.length > 0 ? Math.max(...reached) : null;
+};
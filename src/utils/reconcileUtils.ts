@@ -0,0 +1,88 @@
+// Storage reconciliation: compares the metadata in UserStorage with the blobs the backend
+// actually holds, recomputes usedSpace from the files, and optionally cleans up mismatches.
+import type { StorageBackend } from './storageBackend';
+import {
+  User,
+  UserStorage,
+  FileMetadata,
+  getUserStorage,
+  getStoredFiles,
+  getContentBlobId,
+  getFileBlobIds,
+  getStoredSize
+} from './storageUtils';
+import { getPendingUploads, getChunkCount } from './uploadUtils';
+
+export interface OrphanedBlob {
+  id: string;
+  size: number;
+}
+
+export interface ReconciliationReport {
+  previousUsedSpace: number;
+  usedSpace: number;
+  orphanedBlobs: OrphanedBlob[]; // blobs with no metadata pointing at them
+  missingFiles: FileMetadata[]; // metadata whose blob is gone
+  cleanedUp: boolean;
+  checkedAt: number;
+}
+
+// Every blob id the metadata refers to
+export const getReferencedBlobIds = (storage: UserStorage): Set<string> => {
+  const blobIds = new Set(getStoredFiles(storage).flatMap(getFileBlobIds));
+  if (storage.searchIndex) {
+    blobIds.add(storage.searchIndex.blobId);
+  }
+  return blobIds;
+};
+
+export const calculateUsedSpace = (files: FileMetadata[]): number => {
+  return files.reduce((total, file) => total + getStoredSize(file), 0);
+};
+
+export const reconcileStorage = async (
+  backend: StorageBackend,
+  user: User,
+  { cleanUp = false }: { cleanUp?: boolean } = {}
+): Promise<ReconciliationReport> => {
+  const storage = await getUserStorage(backend, user);
+  const blobs = await backend.listBlobs(user);
+  const blobIds = new Set(blobs.map(blob => blob.id));
+  const referencedIds = getReferencedBlobIds(storage);
+
+  // Chunks of unfinished uploads are expected to have no metadata yet
+  for (const record of await getPendingUploads(user)) {
+    for (let index = 0; index < getChunkCount(record); index++) {
+      referencedIds.add(`${record.fileId}.part${index}`);
+    }
+  }
+
+  // Sizes come from the listing, so no orphan has to be downloaded
+  const orphanedBlobs: OrphanedBlob[] = blobs.filter(blob => !referencedIds.has(blob.id));
+
+  const missingFiles = getStoredFiles(storage).filter(file => !blobIds.has(getContentBlobId(file)));
+
+  if (cleanUp) {
+    for (const orphan of orphanedBlobs) {
+      await backend.deleteBlob(user, orphan.id);
+    }
+    storage.files = storage.files.filter(file => !missingFiles.includes(file));
+    storage.trash = storage.trash.filter(file => !missingFiles.includes(file));
+  }
+
+  const previousUsedSpace = storage.usedSpace;
+  storage.usedSpace = calculateUsedSpace(getStoredFiles(storage));
+
+  if (cleanUp || storage.usedSpace !== previousUsedSpace) {
+    await backend.saveStorage(user, storage);
+  }
+
+  return {
+    previousUsedSpace,
+    usedSpace: storage.usedSpace,
+    orphanedBlobs,
+    missingFiles,
+    cleanedUp: cleanUp,
+    checkedAt: Date.now(),
+  };
+};
@@ -0,0 +1,344 @@
+// Full-text search. Text is extracted in the browser when a file is uploaded and added to an
+// inverted index (term -> files -> occurrences). The index and the extracted text, which snippets
+// are cut from, are kept in one blob per user, encrypted like file content.
+import type { StorageBackend } from './storageBackend';
+import {
+  User,
+  UserStorage,
+  FileMetadata,
+  FileEncryption,
+  getUserStorage,
+  getStoredFiles,
+  getContentBlobId,
+  sealBlob,
+  openBlob
+} from './storageUtils';
+import { canExtractText, extractText } from './textExtractionUtils';
+
+export const SEARCH_INDEX_BLOB_ID = 'search-index';
+
+// Where the index blob lives and the key it is encrypted under, kept in UserStorage
+export interface SearchIndexRecord {
+  blobId: string;
+  encryption: FileEncryption;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  file: FileMetadata;
+  score: number;
+  nameMatch: boolean;
+  snippet: SnippetPart[] | null; // content around the first match, when the content matched
+}
+
+interface IndexedDocument {
+  blobId: string; // content the text was extracted from; a new version makes the entry stale
+  text: string;
+}
+
+interface SearchIndex {
+  version: 1;
+  documents: Record<string, IndexedDocument>; // by file id
+  terms: Record<string, Record<string, number>>; // term -> file id -> occurrences
+}
+
+// The subset of a file's metadata needed to index freshly uploaded content
+export interface IndexSource {
+  id: string;
+  blobId: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 40;
+// A name match outranks all but the strongest content matches
+const NAME_MATCH_SCORE = 10;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 180;
+
+const createEmptyIndex = (): SearchIndex => ({ version: 1, documents: {}, terms: {} });
+
+// The decrypted index of the last user it was loaded for, keyed by the record it came from
+let cachedIndex: { storageKey: string; wrappedKey: string; index: SearchIndex } | null = null;
+// Index updates read, change and write the whole blob, so they run one at a time
+let updateQueue: Promise<unknown> = Promise.resolve();
+
+export const tokenize = (text: string): string[] => {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [])
+    .filter(term => term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH);
+};
+
+const loadIndex = async (backend: StorageBackend, user: User, storage: UserStorage): Promise<SearchIndex> => {
+  const record = storage.searchIndex;
+  if (!record) {
+    return createEmptyIndex();
+  }
+
+  if (cachedIndex?.storageKey === user.storageKey && cachedIndex.wrappedKey === record.encryption.wrappedKey) {
+    return cachedIndex.index;
+  }
+
+  // A missing or unreadable index is rebuilt by the next backfill
+  let index = createEmptyIndex();
+  try {
+    const data = await backend.getBlob(user, record.blobId);
+    if (data) {
+      const parsed = JSON.parse(await (await openBlob(data, { type: 'application/json', encryption: record.encryption })).text());
+      if (parsed?.version === 1) {
+        index = parsed;
+      }
+    }
+  } catch {
+    // Fall through with the empty index
+  }
+
+  cachedIndex = { storageKey: user.storageKey, wrappedKey: record.encryption.wrappedKey, index };
+  return index;
+};
+
+const saveIndex = async (backend: StorageBackend, user: User, index: SearchIndex): Promise<void> => {
+  const { data, encryption } = await sealBlob(new Blob([JSON.stringify(index)], { type: 'application/json' }));
+  await backend.putBlob(user, SEARCH_INDEX_BLOB_ID, data);
+
+  // Re-read the metadata so changes made while the index was written are kept
+  const storage = await getUserStorage(backend, user);
+  storage.searchIndex = { blobId: SEARCH_INDEX_BLOB_ID, encryption };
+  await backend.saveStorage(user, storage);
+
+  cachedIndex = { storageKey: user.storageKey, wrappedKey: encryption.wrappedKey, index };
+};
+
+const removeDocument = (index: SearchIndex, fileId: string): boolean => {
+  const document = index.documents[fileId];
+  if (!document) {
+    return false;
+  }
+
+  for (const term of new Set(tokenize(document.text))) {
+    delete index.terms[term]?.[fileId];
+    if (index.terms[term] && Object.keys(index.terms[term]).length === 0) {
+      delete index.terms[term];
+    }
+  }
+  delete index.documents[fileId];
+  return true;
+};
+
+const addDocument = (index: SearchIndex, fileId: string, blobId: string, text: string): void => {
+  removeDocument(index, fileId);
+  index.documents[fileId] = { blobId, text };
+
+  for (const term of tokenize(text)) {
+    const postings = (index.terms[term] ??= {});
+    postings[fileId] = (postings[fileId] ?? 0) + 1;
+  }
+};
+
+// Run `update` on the current index and save it if it reports a change
+const updateIndex = (
+  backend: StorageBackend,
+  user: User,
+  update: (index: SearchIndex, storage: UserStorage) => Promise<boolean> | boolean
+): Promise<void> => {
+  const run = async () => {
+    const storage = await getUserStorage(backend, user);
+    const index = await loadIndex(backend, user, storage);
+
+    try {
+      if (await update(index, storage)) {
+        await saveIndex(backend, user, index);
+      }
+    } catch (error) {
+      // The cached copy may now be ahead of the stored index
+      cachedIndex = null;
+      throw error;
+    }
+  };
+
+  const queued = updateQueue.then(run, run);
+  updateQueue = queued.catch(() => undefined);
+  return queued;
+};
+
+// Index the plaintext content of a file. Returns false for files without extractable text.
+export const indexFileContent = async (
+  backend: StorageBackend,
+  user: User,
+  file: IndexSource,
+  content: Blob
+): Promise<boolean> => {
+  const text = await extractText(content, file);
+  if (text === null) {
+    return false;
+  }
+
+  await updateIndex(backend, user, (index) => {
+    addDocument(index, file.id, file.blobId, text);
+    return true;
+  });
+  return true;
+};
+
+export const removeFromSearchIndex = (backend: StorageBackend, user: User, fileIds: string[]): Promise<void> => {
+  return updateIndex(backend, user, (index) => {
+    let changed = false;
+    for (const fileId of fileIds) {
+      changed = removeDocument(index, fileId) || changed;
+    }
+    return changed;
+  });
+};
+
+// Index files that are missing from the index or whose content changed since, e.g. files uploaded
+// before search existed or added by editors, and drop entries of files that no longer exist.
+// Returns how many files were indexed.
+export const backfillSearchIndex = async (backend: StorageBackend, user: User): Promise<number> => {
+  let indexed = 0;
+
+  await updateIndex(backend, user, async (index, storage) => {
+    const storedIds = new Set(getStoredFiles(storage).map(file => file.id));
+    let changed = false;
+
+    for (const fileId of Object.keys(index.documents)) {
+      if (!storedIds.has(fileId)) {
+        changed = removeDocument(index, fileId) || changed;
+      }
+    }
+
+    for (const file of storage.files) {
+      const blobId = getContentBlobId(file);
+      if (!canExtractText(file) || index.documents[file.id]?.blobId === blobId) {
+        continue;
+      }
+
+      const data = await backend.getBlob(user, blobId);
+      if (!data) {
+        continue;
+      }
+
+      // Files without readable text are recorded as empty, so they are not retried every time
+      const text = await extractText(await openBlob(data, file), file).catch(() => null);
+      addDocument(index, file.id, blobId, text ?? '');
+      changed = true;
+      indexed++;
+    }
+
+    return changed;
+  });
+
+  return indexed;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Cut the text around the first match and mark every match in it
+const createSnippet = (text: string, terms: string[]): SnippetPart[] | null => {
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}_]*`, 'giu');
+  const first = pattern.exec(text);
+  if (!first) {
+    return null;
+  }
+
+  // Start and end on word boundaries
+  let start = Math.max(0, first.index - SNIPPET_BEFORE);
+  const wordStart = text.indexOf(' ', start);
+  if (start > 0 && wordStart !== -1 && wordStart < first.index) {
+    start = wordStart + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const wordEnd = text.lastIndexOf(' ', end);
+  if (end < text.length && wordEnd > first.index + first[0].length) {
+    end = wordEnd;
+  }
+
+  const excerpt = text.slice(start, end).replace(/\s+/g, ' ');
+  const parts: SnippetPart[] = start > 0 ? [{ text: '…', highlight: false }] : [];
+  let last = 0;
+
+  for (const match of excerpt.matchAll(pattern)) {
+    if (match.index! > last) {
+      parts.push({ text: excerpt.slice(last, match.index), highlight: false });
+    }
+    parts.push({ text: match[0], highlight: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < excerpt.length) {
+    parts.push({ text: excerpt.slice(last), highlight: false });
+  }
+  if (end < text.length) {
+    parts.push({ text: '…', highlight: false });
+  }
+
+  return parts;
+};
+
+// Sum of TF-IDF weights per file; every query term has to match, as a whole word or a prefix
+const scoreContent = (index: SearchIndex, queryTerms: string[]): Map<string, number> => {
+  const documentCount = Object.keys(index.documents).length;
+  const indexTerms = Object.keys(index.terms);
+  let scores: Map<string, number> | null = null;
+
+  for (const queryTerm of queryTerms) {
+    const termScores = new Map<string, number>();
+
+    for (const term of indexTerms) {
+      if (!term.startsWith(queryTerm)) continue;
+
+      const postings = index.terms[term];
+      const idf = Math.log(1 + documentCount / Object.keys(postings).length);
+      const weight = term === queryTerm ? 1 : 0.5;
+      for (const [fileId, count] of Object.entries(postings)) {
+        termScores.set(fileId, (termScores.get(fileId) ?? 0) + weight * (1 + Math.log(count)) * idf);
+      }
+    }
+
+    const previous: Map<string, number> | null = scores;
+    scores = previous === null
+      ? termScores
+      : new Map(Array.from(termScores).filter(([fileId]) => previous.has(fileId)).map(([fileId, score]) => [fileId, score + previous.get(fileId)!]));
+  }
+
+  return scores ?? new Map();
+};
+
+// Live files whose name contains the query or whose content matches it, best matches first
+export const searchFiles = async (
+  backend: StorageBackend,
+  user: User,
+  storage: UserStorage,
+  query: string
+): Promise<SearchHit[]> => {
+  const normalizedQuery = query.trim().toLowerCase();
+  if (!normalizedQuery) {
+    return [];
+  }
+
+  const index = await loadIndex(backend, user, storage);
+  const queryTerms = [...new Set(tokenize(normalizedQuery))];
+  const contentScores = queryTerms.length > 0 ? scoreContent(index, queryTerms) : new Map<string, number>();
+  const hits: SearchHit[] = [];
+
+  for (const file of storage.files) {
+    const nameMatch = file.name.toLowerCase().includes(normalizedQuery);
+    const document = index.documents[file.id];
+    // Text indexed from an earlier version no longer describes the file
+    const contentScore = document?.blobId === getContentBlobId(file) ? contentScores.get(file.id) : undefined;
+
+    if (nameMatch || contentScore !== undefined) {
+      hits.push({
+        file,
+        nameMatch,
+        score: (nameMatch ? NAME_MATCH_SCORE : 0) + (contentScore ?? 0),
+        snippet: contentScore !== undefined ? createSnippet(document.text, queryTerms) : null,
+      });
+    }
+  }
+
+  return hits.sort((a, b) => b.score - a.score || a.file.name.localeCompare(b.file.name));
+};
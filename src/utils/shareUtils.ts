@@ -0,0 +1,222 @@
+// Share links: a file's data key is wrapped under a key derived from a random link token (and
+// the link's password, if any), so anyone holding the link can decrypt that one file without
+// logging in. Only a hash of the token is stored; the owner keeps a copy of the token wrapped
+// with their master key so the link can be copied again later. Link records are public to anyone
+// holding the token, so they name no owner: the backend resolves the shared content itself.
+import type { StorageBackend } from './storageBackend';
+import {
+  User,
+  FileEncryption,
+  getUserStorage,
+  getContentBlobId,
+  getMasterKey,
+  unwrapDataKey
+} from './storageUtils';
+import {
+  PASSWORD_HASH_ITERATIONS,
+  generateSalt,
+  deriveMasterKey,
+  wrapFileKey,
+  unwrapFileKey,
+  decryptBlob,
+  bytesToBase64Url,
+  base64UrlToBytes,
+  sha256Hex
+} from './cryptoUtils';
+import { StorageError } from './storageErrors';
+import { recordActivity, describeFile } from './activityUtils';
+
+const TOKEN_BYTES = 32;
+
+export interface ShareLink {
+  id: string; // SHA-256 of the link token
+  fileId: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  blobId: string; // the content that was shared; later versions are not exposed
+  encryption: FileEncryption; // data key wrapped with the link key
+  keySalt: string;
+  keyIterations: number;
+  ownerToken: string; // the link token, wrapped with the owner's master key
+  hasPassword: boolean;
+  createdAt: number;
+  expiresAt?: number;
+  maxDownloads?: number;
+  downloadCount: number;
+}
+
+export interface ShareLinkOptions {
+  expiresAt?: number;
+  password?: string;
+  maxDownloads?: number;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'exhausted';
+
+export type SharedFileResult =
+  | { status: 'ok'; blob: Blob; name: string }
+  | { status: 'not-found' | 'expired' | 'exhausted' | 'invalid-password' | 'unavailable' };
+
+export const getShareUrl = (token: string): string => `${window.location.origin}/s/${token}`;
+
+export const copyShareUrl = async (url: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(url);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const getShareLinkStatus = (link: ShareLink, now = Date.now()): ShareLinkStatus => {
+  if (link.expiresAt !== undefined && link.expiresAt <= now) return 'expired';
+  if (link.maxDownloads !== undefined && link.downloadCount >= link.maxDownloads) return 'exhausted';
+  return 'active';
+};
+
+const deriveLinkKey = (token: string, password: string | undefined, salt: string, iterations: number) => {
+  return deriveMasterKey(password ? `${token}\n${password}` : token, salt, iterations);
+};
+
+// The token is 32 random bytes; they are held as an AES key so the master key can wrap them
+const wrapToken = async (token: string): Promise<string> => {
+  const tokenKey = await crypto.subtle.importKey('raw', base64UrlToBytes(token), 'AES-GCM', true, ['encrypt']);
+  return wrapFileKey(tokenKey, getMasterKey());
+};
+
+export const recoverShareToken = async (link: ShareLink): Promise<string> => {
+  const tokenKey = await unwrapFileKey(link.ownerToken, getMasterKey());
+  return bytesToBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', tokenKey)));
+};
+
+// Create a link to the current content of a file. Returns the link and its token, or null when
+// the file does not exist.
+export const createShareLink = async (
+  backend: StorageBackend,
+  user: User,
+  fileId: string,
+  { expiresAt, password, maxDownloads }: ShareLinkOptions = {}
+): Promise<{ link: ShareLink; token: string } | null> => {
+  const storage = await getUserStorage(backend, user);
+  const file = storage.files.find(f => f.id === fileId);
+
+  if (!file) {
+    return null;
+  }
+
+  // Files from before encryption are sealed at login; refuse rather than share plaintext keys
+  if (!file.encryption) {
+    throw new StorageError('corrupted', `${file.name} has not been encrypted yet`);
+  }
+
+  const token = bytesToBase64Url(crypto.getRandomValues(new Uint8Array(TOKEN_BYTES)));
+  const keySalt = generateSalt();
+  const linkKey = await deriveLinkKey(token, password, keySalt, PASSWORD_HASH_ITERATIONS);
+  const fileKey = await unwrapDataKey(file.encryption);
+
+  const link: ShareLink = {
+    id: await sha256Hex(token),
+    fileId: file.id,
+    fileName: file.name,
+    fileType: file.type,
+    fileSize: file.size,
+    blobId: getContentBlobId(file),
+    encryption: { algorithm: file.encryption.algorithm, wrappedKey: await wrapFileKey(fileKey, linkKey), segmentSize: file.encryption.segmentSize },
+    keySalt,
+    keyIterations: PASSWORD_HASH_ITERATIONS,
+    ownerToken: await wrapToken(token),
+    hasPassword: Boolean(password),
+    createdAt: Date.now(),
+    expiresAt,
+    maxDownloads,
+    downloadCount: 0,
+  };
+
+  await backend.putShareLink(user, link);
+  await recordActivity(backend, user, [{ action: 'share', ...describeFile(file), detail: 'as a link' }]).catch(() => undefined);
+
+  return { link, token };
+};
+
+export const getShareLinks = async (backend: StorageBackend, user: User): Promise<ShareLink[]> => {
+  const links = await backend.listShareLinks(user);
+  return links.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const revokeShareLink = async (backend: StorageBackend, user: User, linkId: string): Promise<boolean> => {
+  const links = await backend.listShareLinks(user);
+
+  if (!links.some(link => link.id === linkId)) {
+    return false;
+  }
+
+  await backend.deleteShareLink(user, linkId);
+  return true;
+};
+
+// Look up a link by its token, without any session
+export const getSharedLink = async (backend: StorageBackend, token: string): Promise<ShareLink | null> => {
+  return backend.getShareLink(await sha256Hex(token));
+};
+
+// Decrypt the shared file; the backend counts the download when it hands out the content
+export const downloadSharedFile = async (
+  backend: StorageBackend,
+  token: string,
+  password?: string
+): Promise<SharedFileResult> => {
+  const link = await getSharedLink(backend, token);
+
+  if (!link) {
+    return { status: 'not-found' };
+  }
+
+  const status = getShareLinkStatus(link);
+  if (status !== 'active') {
+    return { status };
+  }
+
+  let fileKey: CryptoKey;
+  try {
+    const linkKey = await deriveLinkKey(token, password, link.keySalt, link.keyIterations);
+    fileKey = await unwrapFileKey(link.encryption.wrappedKey, linkKey);
+  } catch (error) {
+    // AES-KW fails its integrity check when the key was derived from the wrong password
+    return { status: 'invalid-password' };
+  }
+
+  const data = await backend.getShareLinkBlob(link.id);
+
+  if (!data) {
+    return { status: 'unavailable' };
+  }
+
+  const blob = await decryptBlob(data, fileKey, link.fileType, link.encryption.segmentSize);
+  return { status: 'ok', blob, name: link.fileName };
+};
+
+// The owner's links with their copy of the link token re-wrapped for a new master key.
+// Nothing is saved here, so a password change can prepare every re-wrap before writing anything.
+export const rewrapShareTokens = async (
+  backend: StorageBackend,
+  user: User,
+  oldMasterKey: CryptoKey,
+  newMasterKey: CryptoKey
+): Promise<ShareLink[]> => {
+  const links: ShareLink[] = [];
+
+  for (const link of await backend.listShareLinks(user)) {
+    const tokenKey = await unwrapFileKey(link.ownerToken, oldMasterKey);
+    links.push({ ...link, ownerToken: await wrapFileKey(tokenKey, newMasterKey) });
+  }
+
+  return links;
+};
+
+// File the owner's links under a new storage namespace, after the storage key was rotated
+export const moveShareLinks = async (backend: StorageBackend, user: User, rotatedUser: User): Promise<void> => {
+  for (const link of await backend.listShareLinks(user)) {
+    await backend.putShareLink(rotatedUser, link);
+  }
+};
@@ -0,0 +1,449 @@
+// One conformance suite run against every StorageBackend adapter, so they stay interchangeable
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { StorageBackend } from './storageBackend';
+import { User, UserStorage, getContentBlobId, getFileBlobIds } from './storageUtils';
+import { ShareLink, getShareLinkStatus } from './shareUtils';
+import { UserShare, getSharedFiles, getUpdateBlobId, applySharedFileUpdate } from './userShareUtils';
+import { DEFAULT_MAX_VERSIONS } from './versionUtils';
+import { StorageError } from './storageErrors';
+import { createLocalStorageBackend } from './backends/localStorageBackend';
+import { createIndexedDbBackend } from './backends/indexedDbBackend';
+import { createHttpBackend } from './backends/httpBackend';
+
+// Tests run in Node, whose Blob (unlike jsdom's) survives structured cloning into IndexedDB.
+// The browser-based adapters still need localStorage and FileReader, so minimal ones stand in.
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  key(index: number) { return Array.from(this.items.keys())[index] ?? null; }
+  removeItem(key: string) { this.items.delete(key); }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+}
+
+class DataUrlReader {
+  result: string | null = null;
+  onload: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type || 'application/octet-stream'};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onload?.();
+    }, error => this.onerror?.(error));
+  }
+}
+
+Object.assign(globalThis, { localStorage: new MemoryStorage(), FileReader: DataUrlReader });
+
+const alice: User = { username: 'alice', storageKey: 'alice-key' };
+const bob: User = { username: 'bob', storageKey: 'bob-key' };
+
+const makeStorage = (): UserStorage => ({
+  files: [{ id: 'f1', name: 'notes.txt', type: 'text/plain', size: 5, lastModified: 1, path: '/' }],
+  folders: ['/docs'],
+  trash: [],
+  usedSpace: 5,
+  totalSpace: 1000,
+});
+
+const makeShareLink = (id: string): ShareLink => ({
+  id,
+  fileId: 'f1',
+  fileName: 'notes.txt',
+  fileType: 'text/plain',
+  fileSize: 5,
+  blobId: 'f1',
+  encryption: { algorithm: 'AES-GCM', wrappedKey: 'wrapped', segmentSize: 65536 },
+  keySalt: 'salt',
+  keyIterations: 1,
+  ownerToken: 'token',
+  hasPassword: false,
+  createdAt: 1,
+  downloadCount: 0,
+});
+
+const makeUserShare = (id: string, owner: string, recipient: string, overrides: Partial<UserShare> = {}): UserShare => ({
+  id,
+  owner,
+  recipient,
+  itemType: 'file',
+  itemId: 'f1',
+  name: 'notes.txt',
+  role: 'viewer',
+  createdAt: 1,
+  fileKeys: {},
+  ...overrides,
+});
+
+// In-memory stand-in for the REST server described in httpBackend.ts
+const createFakeServer = (): typeof fetch => {
+  const storages = new Map<string, string>();
+  const blobs = new Map<string, Blob>();
+  const shareLinks = new Map<string, { owner: string; link: ShareLink }>();
+  const userShares = new Map<string, { owner: string; share: UserShare }>();
+
+  const json = (value: unknown) => new Response(JSON.stringify(value), { headers: { 'Content-Type': 'application/json' } });
+  const notFound = () => new Response(null, { status: 404 });
+  const ok = () => new Response(null, { status: 204 });
+
+  return async (input, init) => {
+    const method = init?.method ?? 'GET';
+    const segments = new URL(String(input), 'http://server').pathname.split('/').slice(2).map(decodeURIComponent);
+    const body = init?.body;
+
+    if (segments[0] === 'users') {
+      const [, username, storageKey, resource, id, subresource, subId] = segments;
+      const userKey = `${username}/${storageKey}`;
+
+      if (resource === 'storage') {
+        if (method === 'PUT') storages.set(userKey, String(body));
+        if (method === 'DELETE') storages.delete(userKey);
+        if (method !== 'GET') return ok();
+        return storages.has(userKey) ? new Response(storages.get(userKey)) : notFound();
+      }
+      if (resource === 'blobs' && id === undefined) {
+        const prefix = `${userKey}/`;
+        const keys = Array.from(blobs.keys()).filter(key => key.startsWith(prefix));
+        return json(keys.map(key => ({ id: key.slice(prefix.length), size: blobs.get(key)!.size })));
+      }
+      if (resource === 'blobs') {
+        const blobKey = `${userKey}/${id}`;
+        if (method === 'PUT') blobs.set(blobKey, body as Blob);
+        if (method === 'DELETE') blobs.delete(blobKey);
+        if (method !== 'GET') return ok();
+        return blobs.has(blobKey) ? new Response(blobs.get(blobKey)) : notFound();
+      }
+      if (resource === 'shares' && id === undefined) {
+        return json(Array.from(shareLinks.values()).filter(entry => entry.owner === userKey).map(entry => entry.link));
+      }
+      if (resource === 'shares') {
+        const entry = shareLinks.get(id);
+        if (method === 'PUT' && entry && !entry.owner.startsWith(`${username}/`)) return new Response(null, { status: 403 });
+        if (method === 'PUT') shareLinks.set(id, { owner: userKey, link: JSON.parse(String(body)) });
+        if (method === 'DELETE' && entry?.owner === userKey) shareLinks.delete(id);
+        return ok();
+      }
+      if (resource === 'user-shares' && id === undefined) {
+        return json(Array.from(userShares.values()).filter(entry => entry.owner === userKey).map(entry => entry.share));
+      }
+      if (resource === 'user-shares') {
+        const entry = userShares.get(id);
+        if (method === 'PUT' && entry && !entry.owner.startsWith(`${username}/`)) return new Response(null, { status: 403 });
+        if (method === 'PUT') userShares.set(id, { owner: userKey, share: JSON.parse(String(body)) });
+        if (method === 'DELETE' && entry?.owner === userKey) userShares.delete(id);
+        return ok();
+      }
+      if (resource === 'received-shares' && id === undefined) {
+        return json(Array.from(userShares.values()).filter(entry => entry.share.recipient === username).map(entry => entry.share));
+      }
+      if (resource === 'received-shares') {
+        const entry = userShares.get(id);
+        if (entry?.share.recipient !== username) return notFound();
+        if (subresource === undefined && method === 'DELETE') userShares.delete(id);
+        if (subresource === undefined) return method === 'GET' ? json(entry.share) : ok();
+
+        const { owner, share } = entry;
+        const storage: UserStorage = JSON.parse(storages.get(owner)!);
+        if (subresource === 'blobs') {
+          const isShared = getSharedFiles(storage, share).some(file => getContentBlobId(file) === subId);
+          return isShared && blobs.has(`${owner}/${subId}`) ? new Response(blobs.get(`${owner}/${subId}`)) : notFound();
+        }
+        if (method === 'GET') return json(getSharedFiles(storage, share));
+
+        const form = body as FormData;
+        const update = JSON.parse(String(form.get('update')));
+        const evicted = share.role === 'editor' ? applySharedFileUpdate(storage, share, update, DEFAULT_MAX_VERSIONS) : null;
+        if (!evicted) return notFound();
+        if (getUpdateBlobId(update)) blobs.set(`${owner}/${getUpdateBlobId(update)}`, form.get('blob') as Blob);
+        storages.set(owner, JSON.stringify(storage));
+        evicted.forEach(blobId => blobs.delete(`${owner}/${blobId}`));
+        return ok();
+      }
+    }
+
+    if (segments[0] === 'shares') {
+      const entry = shareLinks.get(segments[1]);
+      if (!entry) return notFound();
+      if (segments[2] !== 'blob') return json(entry.link);
+
+      const { owner, link } = entry;
+      const storage: UserStorage | undefined = storages.has(owner) ? JSON.parse(storages.get(owner)!) : undefined;
+      const file = storage?.files.find(f => f.id === link.fileId);
+      const blob = blobs.get(`${owner}/${link.blobId}`);
+      if (getShareLinkStatus(link) !== 'active' || !file || !getFileBlobIds(file).includes(link.blobId) || !blob) {
+        return notFound();
+      }
+      entry.link = { ...link, downloadCount: link.downloadCount + 1 };
+      return new Response(blob);
+    }
+
+    return notFound();
+  };
+};
+
+const clearIndexedDb = (): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('keydrive_vault');
+    request.onsuccess = () => {
+      const db = request.result;
+      const storeNames = Array.from(db.objectStoreNames);
+      if (storeNames.length === 0) {
+        db.close();
+        resolve();
+        return;
+      }
+      const transaction = db.transaction(storeNames, 'readwrite');
+      storeNames.forEach(name => transaction.objectStore(name).clear());
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const adapters: [string, () => StorageBackend][] = [
+  ['localStorage', () => createLocalStorageBackend()],
+  ['IndexedDB', () => createIndexedDbBackend()],
+  ['HTTP', () => createHttpBackend('http://server/api', createFakeServer())],
+];
+
+describe.each(adapters)('%s backend', (_name, createBackend) => {
+  let backend: StorageBackend;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await clearIndexedDb();
+    backend = createBackend();
+  });
+
+  describe('storage records', () => {
+    it('returns null for a user without storage', async () => {
+      expect(await backend.loadStorage(alice)).toBeNull();
+    });
+
+    it('round-trips a saved record', async () => {
+      await backend.saveStorage(alice, makeStorage());
+      expect(await backend.loadStorage(alice)).toEqual(makeStorage());
+    });
+
+    it('overwrites the previous record', async () => {
+      await backend.saveStorage(alice, makeStorage());
+      await backend.saveStorage(alice, { ...makeStorage(), folders: ['/other'] });
+      expect((await backend.loadStorage(alice))?.folders).toEqual(['/other']);
+    });
+
+    it('keeps users apart', async () => {
+      await backend.saveStorage(alice, makeStorage());
+      expect(await backend.loadStorage(bob)).toBeNull();
+      expect(await backend.loadStorage({ ...alice, storageKey: 'rotated' })).toBeNull();
+    });
+
+    it('deletes a record', async () => {
+      await backend.saveStorage(alice, makeStorage());
+      await backend.deleteStorage(alice);
+      expect(await backend.loadStorage(alice)).toBeNull();
+    });
+  });
+
+  describe('blobs', () => {
+    it('round-trips blob content', async () => {
+      await backend.putBlob(alice, 'b1', new Blob(['hello'], { type: 'text/plain' }));
+      const blob = await backend.getBlob(alice, 'b1');
+      expect(blob).not.toBeNull();
+      expect(await blob!.text()).toBe('hello');
+    });
+
+    it('returns null for a missing blob', async () => {
+      expect(await backend.getBlob(alice, 'missing')).toBeNull();
+    });
+
+    it('replaces a blob written under the same id', async () => {
+      await backend.putBlob(alice, 'b1', new Blob(['first']));
+      await backend.putBlob(alice, 'b1', new Blob(['second']));
+      expect(await (await backend.getBlob(alice, 'b1'))!.text()).toBe('second');
+    });
+
+    it('deletes a blob, and ignores deleting one that does not exist', async () => {
+      await backend.putBlob(alice, 'b1', new Blob(['hello']));
+      await backend.deleteBlob(alice, 'b1');
+      await backend.deleteBlob(alice, 'missing');
+      expect(await backend.getBlob(alice, 'b1')).toBeNull();
+    });
+
+    it("lists only the user's own blobs, with their sizes", async () => {
+      await backend.putBlob(alice, 'b1', new Blob(['1']));
+      await backend.putBlob(alice, 'b2.part0', new Blob(['chunk']));
+      await backend.putBlob(alice, 'b4', new Blob([]));
+      await backend.putBlob(bob, 'b3', new Blob(['3']));
+      const listed = (await backend.listBlobs(alice)).sort((a, b) => a.id.localeCompare(b.id));
+      expect(listed).toEqual([{ id: 'b1', size: 1 }, { id: 'b2.part0', size: 5 }, { id: 'b4', size: 0 }]);
+      expect(await backend.getBlob(bob, 'b1')).toBeNull();
+    });
+  });
+
+  describe('share links', () => {
+    it('stores, reads and deletes a link', async () => {
+      await backend.putShareLink(alice, makeShareLink('l1'));
+      expect(await backend.getShareLink('l1')).toEqual(makeShareLink('l1'));
+
+      await backend.deleteShareLink(alice, 'l1');
+      expect(await backend.getShareLink('l1')).toBeNull();
+    });
+
+    it('lists the links of one owner', async () => {
+      await backend.putShareLink(alice, makeShareLink('l1'));
+      await backend.putShareLink(bob, makeShareLink('l2'));
+      expect((await backend.listShareLinks(alice)).map(link => link.id)).toEqual(['l1']);
+    });
+
+    it("keeps the owner's storage key out of the public record", async () => {
+      await backend.putShareLink(alice, makeShareLink('l1'));
+      expect(JSON.stringify(await backend.getShareLink('l1'))).not.toContain(alice.storageKey);
+    });
+
+    it('only lets the owner delete or overwrite a link', async () => {
+      await backend.putShareLink(alice, makeShareLink('l1'));
+      await backend.deleteShareLink(bob, 'l1');
+      await expect(backend.putShareLink(bob, makeShareLink('l1'))).rejects.toBeInstanceOf(StorageError);
+      expect(await backend.listShareLinks(alice)).toHaveLength(1);
+    });
+
+    it('follows the owner to a rotated storage key', async () => {
+      const rotated = { ...alice, storageKey: 'rotated' };
+      await backend.putShareLink(alice, makeShareLink('l1'));
+      await backend.putShareLink(rotated, makeShareLink('l1'));
+      expect(await backend.listShareLinks(alice)).toEqual([]);
+      expect((await backend.listShareLinks(rotated)).map(link => link.id)).toEqual(['l1']);
+    });
+
+    it('serves the linked content and counts the download', async () => {
+      await backend.saveStorage(alice, makeStorage());
+      await backend.putBlob(alice, 'f1', new Blob(['hello']));
+      await backend.putShareLink(alice, makeShareLink('l1'));
+
+      expect(await (await backend.getShareLinkBlob('l1'))!.text()).toBe('hello');
+      expect((await backend.getShareLink('l1'))?.downloadCount).toBe(1);
+    });
+
+    it('stops serving the content once the limit is reached or the file is gone', async () => {
+      await backend.saveStorage(alice, makeStorage());
+      await backend.putBlob(alice, 'f1', new Blob(['hello']));
+      await backend.putShareLink(alice, { ...makeShareLink('l1'), maxDownloads: 1, downloadCount: 1 });
+      await backend.putShareLink(alice, makeShareLink('l2'));
+      expect(await backend.getShareLinkBlob('l1')).toBeNull();
+
+      await backend.saveStorage(alice, { ...makeStorage(), files: [] });
+      expect(await backend.getShareLinkBlob('l2')).toBeNull();
+      expect(await backend.getShareLinkBlob('missing')).toBeNull();
+    });
+  });
+
+  describe('user shares', () => {
+    const carol: User = { username: 'carol', storageKey: 'carol-key' };
+    const encryption = { algorithm: 'AES-GCM' as const, wrappedKey: 'wrapped', segmentSize: 65536 };
+
+    // f1 at the top and f2 inside /docs
+    const saveSharedStorage = async () => {
+      await backend.saveStorage(alice, {
+        ...makeStorage(),
+        files: [
+          { id: 'f1', name: 'notes.txt', type: 'text/plain', size: 5, lastModified: 1, path: '/', encryption },
+          { id: 'f2', name: 'plan.txt', type: 'text/plain', size: 4, lastModified: 1, path: '/docs', encryption },
+        ],
+        usedSpace: 9,
+      });
+      await backend.putBlob(alice, 'f1', new Blob(['hello']));
+      await backend.putBlob(alice, 'f2', new Blob(['plan']));
+    };
+
+    it('stores, reads and deletes a share', async () => {
+      await backend.putUserShare(alice, makeUserShare('s1', 'alice', 'bob'));
+      expect(await backend.getReceivedShare(bob, 's1')).toEqual(makeUserShare('s1', 'alice', 'bob'));
+
+      await backend.deleteUserShare(alice, 's1');
+      expect(await backend.getReceivedShare(bob, 's1')).toBeNull();
+    });
+
+    it('lists shares by owner and by recipient', async () => {
+      await backend.putUserShare(alice, makeUserShare('s1', 'alice', 'bob'));
+      await backend.putUserShare(bob, makeUserShare('s2', 'bob', 'alice'));
+      expect((await backend.listOwnedShares(alice)).map(share => share.id)).toEqual(['s1']);
+      expect((await backend.listReceivedShares(alice)).map(share => share.id)).toEqual(['s2']);
+    });
+
+    it("keeps the owner's storage key out of the record", async () => {
+      await backend.putUserShare(alice, makeUserShare('s1', 'alice', 'bob'));
+      expect(JSON.stringify(await backend.getReceivedShare(bob, 's1'))).not.toContain(alice.storageKey);
+    });
+
+    it('lets the recipient leave a share but not rewrite it', async () => {
+      await backend.putUserShare(alice, makeUserShare('s1', 'alice', 'bob'));
+      await expect(backend.putUserShare(bob, makeUserShare('s1', 'alice', 'bob', { role: 'editor' }))).rejects.toBeInstanceOf(StorageError);
+      await backend.deleteReceivedShare(carol, 's1');
+      expect(await backend.getReceivedShare(bob, 's1')).toEqual(makeUserShare('s1', 'alice', 'bob'));
+
+      await backend.deleteReceivedShare(bob, 's1');
+      expect(await backend.listOwnedShares(alice)).toEqual([]);
+    });
+
+    it('shows the recipient only the shared files', async () => {
+      await saveSharedStorage();
+      await backend.putUserShare(alice, makeUserShare('s1', 'alice', 'bob'));
+
+      expect((await backend.listSharedFiles(bob, 's1'))?.map(file => file.id)).toEqual(['f1']);
+      expect(await (await backend.getSharedBlob(bob, 's1', 'f1'))!.text()).toBe('hello');
+      expect(await backend.getSharedBlob(bob, 's1', 'f2')).toBeNull();
+      expect(await backend.listSharedFiles(carol, 's1')).toBeNull();
+      expect(await backend.getSharedBlob(carol, 's1', 'f1')).toBeNull();
+    });
+
+    it("applies only editors' changes", async () => {
+      await saveSharedStorage();
+      await backend.putUserShare(alice, makeUserShare('s1', 'alice', 'bob'));
+      expect(await backend.updateSharedFiles(bob, 's1', { type: 'trash', fileId: 'f1' })).toBe(false);
+      expect((await backend.loadStorage(alice))?.trash).toEqual([]);
+
+      await backend.putUserShare(alice, makeUserShare('s1', 'alice', 'bob', { role: 'editor' }));
+      expect(await backend.updateSharedFiles(bob, 's1', { type: 'trash', fileId: 'f2' })).toBe(false);
+      expect(await backend.updateSharedFiles(bob, 's1', { type: 'trash', fileId: 'f1' })).toBe(true);
+      expect((await backend.loadStorage(alice))?.trash.map(file => file.id)).toEqual(['f1']);
+    });
+
+    it("adds an editor's upload to a shared folder, but never over an existing blob", async () => {
+      await saveSharedStorage();
+      await backend.putUserShare(alice, makeUserShare('s1', 'alice', 'bob', { itemType: 'folder', itemId: '/docs', role: 'editor' }));
+      const upload = (id: string) => ({
+        type: 'add' as const,
+        file: { id, name: 'new.txt', type: 'text/plain', size: 3, lastModified: 2, encryption },
+        fileKey: 'recipient-key',
+      });
+
+      expect(await backend.updateSharedFiles(bob, 's1', upload('f1'), new Blob(['bad']))).toBe(false);
+      expect(await (await backend.getBlob(alice, 'f1'))!.text()).toBe('hello');
+
+      expect(await backend.updateSharedFiles(bob, 's1', upload('n1'), new Blob(['new']))).toBe(true);
+      expect((await backend.loadStorage(alice))?.files.find(file => file.id === 'n1')?.path).toBe('/docs');
+      expect(await (await backend.getSharedBlob(bob, 's1', 'n1'))!.text()).toBe('new');
+      expect((await backend.getReceivedShare(bob, 's1'))?.fileKeys).toEqual({ n1: 'recipient-key' });
+    });
+  });
+});
+
+describe('HTTP backend errors', () => {
+  it('reports an unreachable server as a StorageError', async () => {
+    const backend = createHttpBackend('http://server/api', () => Promise.reject(new TypeError('Failed to fetch')));
+    await expect(backend.loadStorage(alice)).rejects.toMatchObject({ reason: 'backend-unavailable' });
+    await expect(backend.loadStorage(alice)).rejects.toBeInstanceOf(StorageError);
+  });
+
+  it('reports a full server as device-full', async () => {
+    const backend = createHttpBackend('http://server/api', async () => new Response(null, { status: 507 }));
+    await expect(backend.putBlob(alice, 'b1', new Blob(['x']))).rejects.toMatchObject({ reason: 'device-full' });
+  });
+});
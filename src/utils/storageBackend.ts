@@ -0,0 +1,84 @@
+// Pluggable persistence layer used by the file operations in storageUtils
+import type { User, UserStorage, FileMetadata } from './storageUtils';
+import type { ShareLink } from './shareUtils';
+import type { UserShare, SharedFileUpdate } from './userShareUtils';
+import { createLocalStorageBackend } from './backends/localStorageBackend';
+import { createIndexedDbBackend } from './backends/indexedDbBackend';
+import { createHttpBackend } from './backends/httpBackend';
+
+export type StorageBackendKind = 'local' | 'indexeddb' | 'http';
+
+// A stored blob as the backend lists it, with its size in bytes
+export interface BlobEntry {
+  id: string;
+  size: number;
+}
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  // Storage metadata (file list, usage counters) for a user, or null if none exists yet
+  loadStorage: (user: User) => Promise<UserStorage | null>;
+  saveStorage: (user: User, storage: UserStorage) => Promise<void>;
+  deleteStorage: (user: User) => Promise<void>;
+  // Raw blobs addressed by an id that is unique within the user's namespace
+  putBlob: (user: User, blobId: string, blob: Blob) => Promise<void>;
+  getBlob: (user: User, blobId: string) => Promise<Blob | null>;
+  deleteBlob: (user: User, blobId: string) => Promise<void>;
+  listBlobs: (user: User) => Promise<BlobEntry[]>;
+  // Share link records, readable by id without a session. The backend keeps the namespace of the
+  // owner next to each record, so a link never hands out the owner's storage key.
+  putShareLink: (owner: User, link: ShareLink) => Promise<void>;
+  getShareLink: (linkId: string) => Promise<ShareLink | null>;
+  deleteShareLink: (owner: User, linkId: string) => Promise<void>;
+  listShareLinks: (owner: User) => Promise<ShareLink[]>;
+  // The linked content, counting the download; null once the link has expired or been used up,
+  // or the file it was made from is no longer in the owner's drive
+  getShareLinkBlob: (linkId: string) => Promise<Blob | null>;
+  // Records of files and folders shared with other registered users, kept with the owner's
+  // namespace beside them like share links. Only the owner writes a share; the recipient can
+  // read it and leave it.
+  putUserShare: (owner: User, share: UserShare) => Promise<void>;
+  deleteUserShare: (owner: User, shareId: string) => Promise<void>;
+  listOwnedShares: (owner: User) => Promise<UserShare[]>;
+  getReceivedShare: (recipient: User, shareId: string) => Promise<UserShare | null>;
+  deleteReceivedShare: (recipient: User, shareId: string) => Promise<void>;
+  listReceivedShares: (recipient: User) => Promise<UserShare[]>;
+  // The owner's files as the recipient of a share sees them: only the shared ones, read from the
+  // namespace the backend resolves. Updates are applied with applySharedFileUpdate, for editors
+  // only; false when the share does not allow the change.
+  listSharedFiles: (recipient: User, shareId: string) => Promise<FileMetadata[] | null>;
+  getSharedBlob: (recipient: User, shareId: string, blobId: string) => Promise<Blob | null>;
+  updateSharedFiles: (recipient: User, shareId: string, update: SharedFileUpdate, blob?: Blob) => Promise<boolean>;
+}
+
+// The per-user part of a backend, which the shared records are resolved against
+export type NamespaceStore = Pick<
+  StorageBackend,
+  'loadStorage' | 'saveStorage' | 'deleteStorage' | 'putBlob' | 'getBlob' | 'deleteBlob' | 'listBlobs'
+>;
+
+// Key layout shared by the browser-based adapters
+export const getStorageRecordKey = (user: User): string =>
+  `storage_${user.username}_${user.storageKey}`;
+
+export const getBlobKeyPrefix = (user: User): string =>
+  `file_${user.username}_${user.storageKey}_`;
+
+export const SHARE_LINK_KEY_PREFIX = 'share_';
+export const USER_SHARE_KEY_PREFIX = 'usershare_';
+
+// Pick the adapter configured through VITE_STORAGE_BACKEND, defaulting to IndexedDB
+export const createStorageBackend = (
+  kind: string = import.meta.env.VITE_STORAGE_BACKEND ?? 'indexeddb'
+): StorageBackend => {
+  switch (kind) {
+    case 'local':
+      return createLocalStorageBackend();
+    case 'http':
+      return createHttpBackend(import.meta.env.VITE_STORAGE_API_URL ?? '/api');
+    case 'indexeddb':
+      return createIndexedDbBackend();
+    default:
+      throw new Error(`Unknown storage backend "${kind}"`);
+  }
+};
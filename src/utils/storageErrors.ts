@@ -0,0 +1,70 @@
+// Typed failures raised by the storage layer, so the UI can explain what went wrong
+
+export type StorageErrorReason =
+  | 'quota-exceeded' // the account's storage limit would be exceeded
+  | 'device-full' // the browser or server ran out of space while writing
+  | 'vault-locked' // the encryption key is not available in this session
+  | 'backend-unavailable' // the storage server could not be reached
+  | 'backend-error' // the storage server rejected the request
+  | 'corrupted' // stored data is missing or fails to decrypt
+  | 'unknown';
+
+export class StorageError extends Error {
+  readonly reason: StorageErrorReason;
+
+  constructor(reason: StorageErrorReason, message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'StorageError';
+    this.reason = reason;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+// Browsers report a full origin quota with different names and codes
+const isBrowserQuotaError = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) return false;
+  return (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22 ||
+    error.code === 1014
+  );
+};
+
+// Normalise anything thrown by a backend, WebCrypto or IndexedDB into a StorageError
+export const toStorageError = (error: unknown): StorageError => {
+  if (error instanceof StorageError) return error;
+  if (isBrowserQuotaError(error)) {
+    return new StorageError('device-full', 'The browser ran out of storage space', { cause: error });
+  }
+  if (error instanceof DOMException && error.name === 'OperationError') {
+    return new StorageError('corrupted', 'Stored data could not be decrypted', { cause: error });
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+    return new StorageError('backend-unavailable', 'The storage server could not be reached', { cause: error });
+  }
+  return new StorageError('unknown', error instanceof Error ? error.message : String(error), { cause: error });
+};
+
+export const describeStorageError = (error: unknown): string => {
+  const { reason, message } = toStorageError(error);
+
+  switch (reason) {
+    case 'quota-exceeded':
+      return 'Not enough storage space available in your plan';
+    case 'device-full':
+      return 'Your device is out of storage space. Free up disk space or delete files and try again';
+    case 'vault-locked':
+      return 'Your session has expired. Please log in again';
+    case 'backend-unavailable':
+      return 'The storage server could not be reached. Check your connection and try again';
+    case 'backend-error':
+      return `The storage server rejected the request: ${message}`;
+    case 'corrupted':
+      return 'Stored file data is missing or damaged';
+    default:
+      return message || 'An unexpected storage error occurred';
+  }
+};
@@ -1,41 +1,142 @@
 
-// Simulating a file storage system using localStorage
+// Simulating a file storage system on top of a pluggable StorageBackend
+import type { StorageBackend, NamespaceStore } from './storageBackend';
+import { ReconciliationReport, reconcileStorage } from './reconcileUtils';
+import { StorageError } from './storageErrors';
+import { PlanTier, DEFAULT_PLAN, getUserQuota } from './quotaUtils';
+import type { BrowsePreferences } from './browseUtils';
+import type { ColorLabel } from './tagUtils';
+import type { ActivityEntry } from './activityUtils';
+import { SearchIndexRecord, removeFromSearchIndex } from './searchUtils';
+import { logActivity, describeFile } from './activityUtils';
+import { purgeExpiredTrash } from './trashUtils';
+import { rewrapShareTokens, moveShareLinks } from './shareUtils';
+import { adoptCollaboratorKeys, syncUserShares, moveUserShares } from './userShareUtils';
+import { normalizePath, validateFileName } from './pathUtils';
+import {
+  PASSWORD_HASH_ITERATIONS,
+  ENCRYPTION_SEGMENT_SIZE,
+  generateSalt,
+  hashPassword,
+  constantTimeEqual,
+  deriveMasterKey,
+  generateFileKey,
+  wrapFileKey,
+  unwrapFileKey,
+  encryptBlob,
+  decryptBlob,
+  decryptStream,
+  randomHex,
+  generateUuidV7,
+  bytesToBase64,
+  base64ToBytes,
+  generateKeyPair,
+  exportPublicKey,
+  exportPrivateKey,
+  importPrivateKey,
+  unwrapKeyWithPrivateKey
+} from './cryptoUtils';
 
 // Type definitions
+// Public identity of a user; this is all that is ever kept in the session
 export interface User {
   username: string;
-  password: string; // In a real app, this would be hashed
   storageKey: string;
 }
 
+// Full account record persisted in the users list
+export interface StoredUser extends User {
+  passwordHash?: string; // base64 PBKDF2-SHA-256 output
+  passwordSalt?: string; // base64
+  passwordIterations?: number;
+  password?: string; // Legacy plaintext, upgraded to a hash on the next successful login
+  encryptionSalt?: string; // base64 salt for deriving the file master key
+  encryptionIterations?: number;
+  plan?: PlanTier; // absent for accounts created before plans, which keep the original 1TB
+  quotaOverride?: number; // bytes; replaces the plan's quota when set
+  quotaWarningThresholds?: number[]; // usage percentages that trigger a warning
+  trashRetentionDays?: number; // trashed files older than this are purged; 0 keeps them forever
+  maxFileVersions?: number; // older versions kept per file
+  browsePreferences?: BrowsePreferences; // sort and filter choices in the file browser
+  publicKey?: string; // base64 SPKI key that other users wrap shared data keys with
+  privateKey?: SealedPrivateKey;
+}
+
+// The private half of a user's key pair, encrypted under a data key like a file's content
+export interface SealedPrivateKey {
+  wrappedKey: string; // base64 data key, wrapped (AES-KW) with the user's master key
+  data: string; // base64 encrypted PKCS#8 key
+}
+
+export interface FileEncryption {
+  algorithm: 'AES-GCM';
+  wrappedKey: string; // base64 data key, wrapped (AES-KW) with the user's master key
+  segmentSize: number; // plaintext bytes per encrypted segment
+  keyWrapping?: 'public-key'; // wrapped (RSA-OAEP) with the user's public key by an editor, see userShareUtils
+}
+
 export interface FileMetadata {
   id: string;
   name: string;
   type: string;
   size: number; // in bytes
   lastModified: number; // timestamp
-  path?: string;
+  path?: string; // containing folder, see pathUtils; absent means the root folder
+  encryption?: FileEncryption; // absent for files stored before encryption was introduced
+  thumbnail?: FileThumbnail | null; // null once generation was attempted and failed
+  blobId?: string; // blob holding the current content; absent means the file's id
+  versions?: FileVersion[]; // earlier contents, newest first, see versionUtils
+  tags?: string[]; // see tagUtils
+  starred?: boolean;
+  colorLabel?: ColorLabel;
+}
+
+// Content a file had before it was replaced by a newer upload
+export interface FileVersion {
+  blobId: string;
+  type: string;
+  size: number; // in bytes
+  lastModified: number; // timestamp of the uploaded file
+  replacedAt: number; // timestamp
+  encryption?: FileEncryption;
+}
+
+// Small preview image stored as its own encrypted blob, see thumbnailUtils
+export interface FileThumbnail {
+  blobId: string;
+  type: string;
+  encryption: FileEncryption;
+}
+
+// A deleted file waiting in the trash; `path` still holds the folder it was deleted from
+export interface TrashedFile extends FileMetadata {
+  trashedAt: number; // timestamp
 }
 
 export interface UserStorage {
   files: FileMetadata[];
-  usedSpace: number; // in bytes
-  totalSpace: 1099511627776; // 1TB in bytes
+  folders: string[]; // every folder path except the root
+  trash: TrashedFile[];
+  usedSpace: number; // in bytes, trashed files included
+  totalSpace: number; // in bytes, taken from the user's plan or quota override
+  searchIndex?: SearchIndexRecord; // absent until the first file has been indexed
+  activity?: ActivityEntry[]; // oldest first, see activityUtils
 }
 
 // Constants
 const USERS_KEY = 'keydrive_vault_users';
 const CURRENT_USER_KEY = 'keydrive_vault_current_user';
-const MAX_STORAGE = 1099511627776; // 1TB in bytes
 
-// Helper to generate a random 10-character key
+// Master key for wrapping file keys; it only lives in memory, so a reload requires logging in again
+let sessionMasterKey: CryptoKey | null = null;
+// Private key for opening files shared by other users, unsealed at login
+let sessionPrivateKey: CryptoKey | null = null;
+
+const STORAGE_KEY_BYTES = 32;
+
+// Helper to generate a 256-bit storage key (64 hex characters)
 export const generateStorageKey = (): string => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*()';
-  let result = '';
-  for (let i = 0; i < 10; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
+  return randomHex(STORAGE_KEY_BYTES);
 };
 
 // Initialize storage if it doesn't exist
@@ -45,11 +146,81 @@ const initializeStorage = (): void => {
   }
 };
 
-// User management
-export const registerUser = (username: string, password: string): User | null => {
+export const getStoredUsers = (): StoredUser[] => {
   initializeStorage();
+  return JSON.parse(localStorage.getItem(USERS_KEY) || '[]');
+};
+
+export const saveStoredUsers = (users: StoredUser[]): void => {
+  localStorage.setItem(USERS_KEY, JSON.stringify(users));
+};
+
+export const findStoredUser = (username: string): StoredUser | undefined => {
+  return getStoredUsers().find(user => user.username === username);
+};
+
+export const updateStoredUser = (username: string, update: (user: StoredUser) => void): boolean => {
+  const users = getStoredUsers();
+  const user = users.find(u => u.username === username);
   
-  const users: User[] = JSON.parse(localStorage.getItem(USERS_KEY) || '[]');
+  if (!user) {
+    return false;
+  }
+  
+  update(user);
+  saveStoredUsers(users);
+  return true;
+};
+
+const toSessionUser = ({ username, storageKey }: User): User => ({ username, storageKey });
+
+// Salt and hash a password with the current iteration count
+const createPasswordRecord = async (password: string) => {
+  const passwordSalt = generateSalt();
+  const passwordIterations = PASSWORD_HASH_ITERATIONS;
+  const passwordHash = await hashPassword(password, passwordSalt, passwordIterations);
+  return { passwordHash, passwordSalt, passwordIterations };
+};
+
+const createEncryptionRecord = () => ({
+  encryptionSalt: generateSalt(),
+  encryptionIterations: PASSWORD_HASH_ITERATIONS
+});
+
+const verifyPassword = async (user: StoredUser, password: string): Promise<boolean> => {
+  if (user.passwordHash && user.passwordSalt && user.passwordIterations) {
+    const hash = await hashPassword(password, user.passwordSalt, user.passwordIterations);
+    return constantTimeEqual(hash, user.passwordHash);
+  }
+  
+  // Accounts created before hashing was introduced
+  return user.password !== undefined && constantTimeEqual(user.password, password);
+};
+
+// Generate the key pair used for sharing between users; the private key is sealed under the master key
+const createKeyPairRecord = async (masterKey: CryptoKey) => {
+  const keyPair = await generateKeyPair();
+  const dataKey = await generateFileKey();
+  const sealed = await encryptBlob(new Blob([await exportPrivateKey(keyPair.privateKey)]), dataKey);
+  
+  return {
+    publicKey: await exportPublicKey(keyPair.publicKey),
+    privateKey: {
+      wrappedKey: await wrapFileKey(dataKey, masterKey),
+      data: bytesToBase64(new Uint8Array(await sealed.arrayBuffer()))
+    }
+  };
+};
+
+const openPrivateKey = async (sealed: SealedPrivateKey, masterKey: CryptoKey): Promise<CryptoKey> => {
+  const dataKey = await unwrapFileKey(sealed.wrappedKey, masterKey);
+  const pkcs8 = await decryptBlob(new Blob([base64ToBytes(sealed.data)]), dataKey, '');
+  return importPrivateKey(await pkcs8.arrayBuffer());
+};
+
+// User management
+export const registerUser = async (username: string, password: string): Promise<User | null> => {
+  const users = getStoredUsers();
   
   // Check if user already exists
   if (users.some(user => user.username === username)) {
@@ -57,107 +228,318 @@ export const registerUser = (username: string, password: string): User | null =>
   }
   
   // Create new user with a unique storage key
-  const newUser: User = {
+  const newUser: StoredUser = {
     username,
-    password, // In a real app, this would be hashed
-    storageKey: generateStorageKey()
+    storageKey: generateStorageKey(),
+    plan: DEFAULT_PLAN,
+    ...(await createPasswordRecord(password)),
+    ...createEncryptionRecord()
   };
   
   // Add user to the list
   users.push(newUser);
-  localStorage.setItem(USERS_KEY, JSON.stringify(users));
-  
-  // Initialize user's storage
-  const userStorage: UserStorage = {
-    files: [],
-    usedSpace: 0,
-    totalSpace: MAX_STORAGE
-  };
+  saveStoredUsers(users);
   
-  localStorage.setItem(`storage_${newUser.username}_${newUser.storageKey}`, JSON.stringify(userStorage));
-  
-  return newUser;
+  return toSessionUser(newUser);
 };
 
-export const loginUser = (username: string, password: string): User | null => {
-  initializeStorage();
+export const loginUser = async (username: string, password: string): Promise<User | null> => {
+  const users = getStoredUsers();
+  const user = users.find(u => u.username === username);
+  
+  if (!user || !(await verifyPassword(user, password))) {
+    return null;
+  }
+  
+  // Upgrade plaintext or outdated hashes now that we know the password
+  if (!user.passwordHash || (user.passwordIterations ?? 0) < PASSWORD_HASH_ITERATIONS) {
+    Object.assign(user, await createPasswordRecord(password));
+    delete user.password;
+    saveStoredUsers(users);
+  }
+  
+  // Accounts created before encryption was introduced get their key salt now
+  if (!user.encryptionSalt || !user.encryptionIterations) {
+    Object.assign(user, createEncryptionRecord());
+    saveStoredUsers(users);
+  }
   
-  const users: User[] = JSON.parse(localStorage.getItem(USERS_KEY) || '[]');
-  const user = users.find(u => u.username === username && u.password === password);
+  sessionMasterKey = await deriveMasterKey(password, user.encryptionSalt, user.encryptionIterations);
   
-  if (user) {
-    // Store current user in session
-    sessionStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
-    return user;
+  // Accounts created before sharing between users was introduced get their key pair now
+  if (!user.publicKey || !user.privateKey) {
+    Object.assign(user, await createKeyPairRecord(sessionMasterKey));
+    saveStoredUsers(users);
   }
   
-  return null;
+  sessionPrivateKey = await openPrivateKey(user.privateKey, sessionMasterKey);
+  
+  // Store current user in session
+  return setSessionUser(user);
+};
+
+const setSessionUser = (user: User): User => {
+  const sessionUser = toSessionUser(user);
+  sessionStorage.setItem(CURRENT_USER_KEY, JSON.stringify(sessionUser));
+  return sessionUser;
 };
 
 export const logoutUser = (): void => {
+  sessionMasterKey = null;
+  sessionPrivateKey = null;
   sessionStorage.removeItem(CURRENT_USER_KEY);
 };
 
 export const getCurrentUser = (): User | null => {
+  // Without the master key the vault cannot be read, so the session is not usable
+  if (!sessionMasterKey) {
+    return null;
+  }
+  
   const userData = sessionStorage.getItem(CURRENT_USER_KEY);
-  return userData ? JSON.parse(userData) : null;
+  // Sessions from older versions may still hold the full user record
+  return userData ? toSessionUser(JSON.parse(userData)) : null;
 };
 
-// File management
-export const getUserStorage = (user: User): UserStorage => {
-  const storageKey = `storage_${user.username}_${user.storageKey}`;
-  const storageData = localStorage.getItem(storageKey);
+// Change the password and re-wrap every file key under the new master key.
+// File contents are left untouched because only the wrapping key changes. Every re-wrap is
+// prepared in memory first, and the storage record is put back if the new account record cannot
+// be saved, so the files always stay readable with one of the two passwords.
+export const changePassword = async (
+  backend: StorageBackend,
+  user: User,
+  currentPassword: string,
+  newPassword: string
+): Promise<boolean> => {
+  const users = getStoredUsers();
+  const storedUser = users.find(u => u.username === user.username);
   
-  if (!storageData) {
-    // Initialize if not exists
-    const newStorage: UserStorage = {
-      files: [],
-      usedSpace: 0,
-      totalSpace: MAX_STORAGE
-    };
-    localStorage.setItem(storageKey, JSON.stringify(newStorage));
-    return newStorage;
+  if (!storedUser || !(await verifyPassword(storedUser, currentPassword))) {
+    return false;
+  }
+  
+  const oldMasterKey = await deriveMasterKey(currentPassword, storedUser.encryptionSalt, storedUser.encryptionIterations);
+  const encryptionRecord = createEncryptionRecord();
+  const newMasterKey = await deriveMasterKey(newPassword, encryptionRecord.encryptionSalt, encryptionRecord.encryptionIterations);
+  
+  const storage = await getUserStorage(backend, user);
+  const previousStorage: UserStorage = JSON.parse(JSON.stringify(storage));
+  const rewrap = async (record: { wrappedKey: string }) => {
+    const fileKey = await unwrapFileKey(record.wrappedKey, oldMasterKey);
+    record.wrappedKey = await wrapFileKey(fileKey, newMasterKey);
+  };
+  
+  // Keys wrapped by editors have to be under the old master key before they can be re-wrapped
+  await adoptCollaboratorKeys(storage);
+  
+  for (const file of getStoredFiles(storage)) {
+    if (file.encryption) {
+      await rewrap(file.encryption);
+    }
+    if (file.thumbnail) {
+      await rewrap(file.thumbnail.encryption);
+    }
+    for (const version of file.versions ?? []) {
+      if (version.encryption) {
+        await rewrap(version.encryption);
+      }
+    }
+  }
+  if (storage.searchIndex) {
+    await rewrap(storage.searchIndex.encryption);
+  }
+  const links = await rewrapShareTokens(backend, user, oldMasterKey, newMasterKey);
+  const privateKey = storedUser.privateKey && { ...storedUser.privateKey };
+  if (privateKey) {
+    await rewrap(privateKey);
+  }
+  const passwordRecord = await createPasswordRecord(newPassword);
+  
+  // Nothing has been written up to here
+  await backend.saveStorage(user, storage);
+  try {
+    Object.assign(storedUser, passwordRecord, encryptionRecord, privateKey ? { privateKey } : {});
+    delete storedUser.password;
+    saveStoredUsers(users);
+  } catch (error) {
+    await backend.saveStorage(user, previousStorage);
+    throw error;
   }
   
-  return JSON.parse(storageData);
+  sessionMasterKey = newMasterKey;
+  
+  // A link whose token cannot be updated still works for its recipients; the owner only loses
+  // the ability to copy its URL again
+  for (const link of links) {
+    await backend.putShareLink(user, link).catch(() => undefined);
+  }
+  return true;
 };
 
-export const uploadFile = async (user: User, file: File): Promise<boolean> => {
-  const storage = getUserStorage(user);
+// Move every blob and the storage record of a user under a freshly generated storage key.
+// The new namespace is fully written before the account switches to it, so a failure
+// part-way leaves the old namespace intact.
+export const rotateStorageKey = async (backend: StorageBackend, user: User): Promise<User | null> => {
+  const users = getStoredUsers();
+  const storedUser = users.find(u => u.username === user.username && u.storageKey === user.storageKey);
   
-  // Check if enough space is available
-  if (storage.usedSpace + file.size > storage.totalSpace) {
-    return false; // Not enough space
+  if (!storedUser) {
+    return null;
   }
   
-  // Convert file to base64 for storage
-  const base64 = await fileToBase64(file);
+  const rotatedUser: User = { username: user.username, storageKey: generateStorageKey() };
+  const storage = await getUserStorage(backend, user);
+  const blobIds = (await backend.listBlobs(user)).map(blob => blob.id);
+  
+  for (const blobId of blobIds) {
+    const blob = await backend.getBlob(user, blobId);
+    if (blob) {
+      await backend.putBlob(rotatedUser, blobId, blob);
+    }
+  }
+  await backend.saveStorage(rotatedUser, storage);
   
-  // Create file metadata
-  const fileId = generateFileId();
-  const fileMetadata: FileMetadata = {
-    id: fileId,
-    name: file.name,
-    type: file.type,
-    size: file.size,
-    lastModified: file.lastModified
+  storedUser.storageKey = rotatedUser.storageKey;
+  saveStoredUsers(users);
+  await moveShareLinks(backend, user, rotatedUser);
+  await moveUserShares(backend, user, rotatedUser);
+  
+  for (const blobId of blobIds) {
+    await backend.deleteBlob(user, blobId);
+  }
+  await backend.deleteStorage(user);
+  
+  return setSessionUser(rotatedUser);
+};
+
+export const getMasterKey = (): CryptoKey => {
+  if (!sessionMasterKey) {
+    throw new StorageError('vault-locked', 'Vault is locked. Please log in again.');
+  }
+  return sessionMasterKey;
+};
+
+export const getPrivateKey = (): CryptoKey => {
+  if (!sessionPrivateKey) {
+    throw new StorageError('vault-locked', 'Vault is locked. Please log in again.');
+  }
+  return sessionPrivateKey;
+};
+
+// Data keys are wrapped with the master key, except for files an editor added to a shared
+// folder, which stay wrapped with the public key until the owner's next sync
+export const unwrapDataKey = (encryption: FileEncryption): Promise<CryptoKey> => {
+  return encryption.keyWrapping === 'public-key'
+    ? unwrapKeyWithPrivateKey(encryption.wrappedKey, getPrivateKey())
+    : unwrapFileKey(encryption.wrappedKey, getMasterKey());
+};
+
+// Encrypt a blob under a fresh data key, returning the ciphertext and its key record
+export const sealBlob = async (blob: Blob): Promise<{ data: Blob; encryption: FileEncryption }> => {
+  const fileKey = await generateFileKey();
+  const data = await encryptBlob(blob, fileKey, ENCRYPTION_SEGMENT_SIZE);
+  
+  return {
+    data,
+    encryption: {
+      algorithm: 'AES-GCM',
+      wrappedKey: await wrapFileKey(fileKey, getMasterKey()),
+      segmentSize: ENCRYPTION_SEGMENT_SIZE
+    }
   };
+};
+
+export const openBlob = async (blob: Blob, file: Pick<FileMetadata, 'type' | 'encryption'>): Promise<Blob> => {
+  if (!file.encryption) {
+    return blob;
+  }
   
-  // Store file data
-  localStorage.setItem(`file_${user.username}_${user.storageKey}_${fileId}`, base64);
+  const fileKey = await unwrapDataKey(file.encryption);
+  return decryptBlob(blob, fileKey, file.type, file.encryption.segmentSize);
+};
+
+// Like openBlob, but decrypts as the stream is read
+export const openBlobStream = async (blob: Blob, file: Pick<FileMetadata, 'encryption'>): Promise<ReadableStream<Uint8Array>> => {
+  if (!file.encryption) {
+    return blob.stream();
+  }
   
-  // Update storage metadata
-  storage.files.push(fileMetadata);
-  storage.usedSpace += file.size;
+  const fileKey = await unwrapDataKey(file.encryption);
+  return decryptStream(blob, fileKey, file.encryption.segmentSize);
+};
+
+// Live and trashed files, i.e. every file that still has data in the backend
+export const getStoredFiles = (storage: UserStorage): FileMetadata[] => {
+  return [...storage.files, ...storage.trash];
+};
+
+export const getContentBlobId = (file: FileMetadata): string => file.blobId ?? file.id;
+
+// Every blob stored for a file: its content plus any derived data
+export const getFileBlobIds = (file: FileMetadata): string[] => {
+  const blobIds = [getContentBlobId(file)];
+  if (file.thumbnail) {
+    blobIds.push(file.thumbnail.blobId);
+  }
+  for (const version of file.versions ?? []) {
+    blobIds.push(version.blobId);
+  }
+  return blobIds;
+};
+
+// Bytes a file takes up in storage, its earlier versions included
+export const getStoredSize = (file: FileMetadata): number => {
+  return (file.versions ?? []).reduce((total, version) => total + version.size, file.size);
+};
+
+export const findFileByName = (storage: UserStorage, folderPath: string, name: string): FileMetadata | undefined => {
+  const path = normalizePath(folderPath);
+  return storage.files.find(file => file.name === name && normalizePath(file.path) === path);
+};
+
+// The name itself when it is free in the folder, otherwise "name (2).ext", "name (3).ext", ...
+export const getUniqueFileName = (storage: UserStorage, folderPath: string, name: string): string => {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  let candidate = name;
   
-  // Save updated storage
-  localStorage.setItem(`storage_${user.username}_${user.storageKey}`, JSON.stringify(storage));
+  for (let counter = 2; findFileByName(storage, folderPath, candidate); counter++) {
+    candidate = `${base} (${counter})${extension}`;
+  }
   
-  return true;
+  return candidate;
 };
 
-export const deleteFile = (user: User, fileId: string): boolean => {
-  const storage = getUserStorage(user);
+// File management
+export const getUserStorage = async (backend: NamespaceStore, user: User): Promise<UserStorage> => {
+  const storage = await backend.loadStorage(user);
+  
+  if (!storage) {
+    // Initialize if not exists
+    const newStorage: UserStorage = {
+      files: [],
+      folders: [],
+      trash: [],
+      usedSpace: 0,
+      totalSpace: getUserQuota(user.username)
+    };
+    await backend.saveStorage(user, newStorage);
+    return newStorage;
+  }
+  
+  // Storage saved before folders or the trash existed
+  storage.folders ??= [];
+  storage.trash ??= [];
+  
+  // The limit is owned by the account, so plan changes apply on the next read
+  storage.totalSpace = getUserQuota(user.username);
+  
+  return storage;
+};
+
+export const deleteFile = async (backend: StorageBackend, user: User, fileId: string): Promise<boolean> => {
+  const storage = await getUserStorage(backend, user);
   const fileIndex = storage.files.findIndex(f => f.id === fileId);
   
   if (fileIndex === -1) {
@@ -166,43 +548,182 @@ export const deleteFile = (user: User, fileId: string): boolean => {
   
   const file = storage.files[fileIndex];
   
-  // Remove file data
-  localStorage.removeItem(`file_${user.username}_${user.storageKey}_${fileId}`);
-  
   // Update storage metadata
-  storage.usedSpace -= file.size;
+  storage.usedSpace -= getStoredSize(file);
   storage.files.splice(fileIndex, 1);
+  logActivity(storage, [{ action: 'delete', ...describeFile(file) }]);
+  
+  // Save metadata first: if removing the data then fails, the blob is only an orphan
+  // that reconciliation can clean up, never a file entry without data
+  await backend.saveStorage(user, storage);
   
-  // Save updated storage
-  localStorage.setItem(`storage_${user.username}_${user.storageKey}`, JSON.stringify(storage));
+  // Remove file data
+  for (const blobId of getFileBlobIds(file)) {
+    await backend.deleteBlob(user, blobId);
+  }
+  await removeFromSearchIndex(backend, user, [file.id]).catch(() => undefined);
   
   return true;
 };
 
-export const downloadFile = (user: User, fileId: string): string | null => {
-  const storage = getUserStorage(user);
+export type RenameFileResult =
+  | { status: 'ok'; name: string }
+  | { status: 'invalid'; error: string }
+  | { status: 'exists' | 'not-found' };
+
+// Rename a file in place; a name that another file in the same folder already uses is refused
+export const renameFile = async (
+  backend: StorageBackend,
+  user: User,
+  fileId: string,
+  newName: string
+): Promise<RenameFileResult> => {
+  const error = validateFileName(newName);
+  if (error) {
+    return { status: 'invalid', error };
+  }
+  
+  const storage = await getUserStorage(backend, user);
+  const file = storage.files.find(f => f.id === fileId);
+  
+  if (!file) {
+    return { status: 'not-found' };
+  }
+  
+  const name = newName.trim();
+  if (name === file.name) {
+    return { status: 'ok', name };
+  }
+  
+  const existing = findFileByName(storage, normalizePath(file.path), name);
+  if (existing && existing.id !== file.id) {
+    return { status: 'exists' };
+  }
+  
+  logActivity(storage, [{ action: 'rename', ...describeFile(file), detail: name }]);
+  file.name = name;
+  await backend.saveStorage(user, storage);
+  
+  return { status: 'ok', name };
+};
+
+export const downloadFile = async (backend: StorageBackend, user: User, fileId: string): Promise<Blob | null> => {
+  const storage = await getUserStorage(backend, user);
   const file = storage.files.find(f => f.id === fileId);
   
   if (!file) {
     return null; // File not found
   }
   
-  // Get file data
-  return localStorage.getItem(`file_${user.username}_${user.storageKey}_${fileId}`);
+  // Get and decrypt file data
+  const data = await backend.getBlob(user, getContentBlobId(file));
+  return data ? openBlob(data, file) : null;
+};
+
+// Copy base64 entries written by the localStorage-only version into the active backend
+export const migrateLegacyFiles = async (backend: StorageBackend, user: User): Promise<number> => {
+  // The localStorage adapter already reads the legacy layout in place
+  if (backend.kind === 'local') {
+    return 0;
+  }
+  
+  const storage = await getUserStorage(backend, user);
+  let migrated = 0;
+  
+  for (const file of getStoredFiles(storage)) {
+    const key = `file_${user.username}_${user.storageKey}_${file.id}`;
+    const dataUrl = localStorage.getItem(key);
+    
+    if (!dataUrl) {
+      continue;
+    }
+    
+    await backend.putBlob(user, file.id, dataUrlToBlob(dataUrl, file.type));
+    localStorage.removeItem(key);
+    migrated++;
+  }
+  
+  return migrated;
+};
+
+// Encrypt files that were stored in plain form by older versions
+export const encryptPlaintextFiles = async (backend: StorageBackend, user: User): Promise<number> => {
+  const storage = await getUserStorage(backend, user);
+  let encrypted = 0;
+  
+  for (const file of getStoredFiles(storage)) {
+    if (file.encryption) {
+      continue;
+    }
+    
+    const plaintext = await backend.getBlob(user, getContentBlobId(file));
+    if (!plaintext) {
+      continue;
+    }
+    
+    const { data, encryption } = await sealBlob(plaintext);
+    await backend.putBlob(user, getContentBlobId(file), data);
+    file.encryption = encryption;
+    encrypted++;
+  }
+  
+  if (encrypted > 0) {
+    await backend.saveStorage(user, storage);
+  }
+  
+  return encrypted;
+};
+
+// Bring data written by older versions up to date, purge expired trash, sync shares and check usage;
+// run right after login
+export const prepareVault = async (backend: StorageBackend, user: User): Promise<ReconciliationReport> => {
+  await migrateLegacyFiles(backend, user);
+  await encryptPlaintextFiles(backend, user);
+  await purgeExpiredTrash(backend, user);
+  await syncUserShares(backend, user);
+  return reconcileStorage(backend, user);
 };
 
 // Helper functions
-const fileToBase64 = (file: File): Promise<string> => {
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.readAsDataURL(file);
+    reader.readAsDataURL(blob);
     reader.onload = () => resolve(reader.result as string);
     reader.onerror = error => reject(error);
   });
 };
 
-const generateFileId = (): string => {
-  return Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+export const dataUrlToBlob = (dataUrl: string, fallbackType = ''): Blob => {
+  const [header, data = ''] = dataUrl.split(',', 2);
+  const type = header.match(/^data:([^;,]*)/)?.[1] || fallbackType;
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  
+  return new Blob([bytes], { type });
+};
+
+// Bytes held by a base64 data URL, worked out without decoding it
+export const getDataUrlSize = (dataUrl: string): number => {
+  const data = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return data.length * 3 / 4 - padding;
+};
+
+// Time-ordered random id, re-drawn in the (practically impossible) case it is already in use
+export const generateFileId = (storage: UserStorage): string => {
+  const existingIds = new Set(getStoredFiles(storage).map(f => f.id));
+  let fileId = generateUuidV7();
+  
+  while (existingIds.has(fileId)) {
+    fileId = generateUuidV7();
+  }
+  
+  return fileId;
 };
 
 export const formatFileSize = (bytes: number): string => {
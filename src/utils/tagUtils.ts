@@ -0,0 +1,177 @@
+// Tags, stars and color labels: user-defined attributes for organizing files, kept in
+// `FileMetadata.tags`, `starred` and `colorLabel`
+import type { StorageBackend } from './storageBackend';
+import { User, UserStorage, FileMetadata, getUserStorage, getStoredFiles } from './storageUtils';
+
+export const MAX_TAG_LENGTH = 32;
+
+export type ColorLabel = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'gray';
+
+export const COLOR_LABELS: ColorLabel[] = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'gray'];
+
+export interface TagUsage {
+  tag: string;
+  count: number; // live files carrying the tag
+}
+
+// Lowercase, with whitespace turned into dashes; null when the tag cannot be used
+export const normalizeTag = (tag: string): string | null => {
+  const normalized = tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+  if (!normalized || normalized.length > MAX_TAG_LENGTH || !/^[\p{L}\p{N}_-]+$/u.test(normalized)) {
+    return null;
+  }
+
+  return normalized;
+};
+
+// Split "tag:invoices report" into the tags to filter by and the remaining search text
+export const parseTagQuery = (query: string): { tags: string[]; text: string } => {
+  const tags: string[] = [];
+  const text = query.replace(/(^|\s)tag:(\S+)/gi, (match, space: string, tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (!normalized) return match;
+    tags.push(normalized);
+    return space;
+  });
+
+  return { tags, text: text.trim() };
+};
+
+export const hasAllTags = (file: FileMetadata, tags: string[]): boolean => {
+  return tags.every(tag => file.tags?.includes(tag));
+};
+
+// Every tag in use, most used first
+export const getTagUsage = (storage: UserStorage): TagUsage[] => {
+  const counts = new Map<string, number>();
+  for (const file of storage.files) {
+    for (const tag of file.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Apply `update` to the given files and save if any of them changed; returns how many changed
+const updateFiles = async (
+  backend: StorageBackend,
+  user: User,
+  select: (file: FileMetadata) => boolean,
+  update: (file: FileMetadata) => boolean
+): Promise<number> => {
+  const storage = await getUserStorage(backend, user);
+  let changed = 0;
+
+  for (const file of getStoredFiles(storage).filter(select)) {
+    if (update(file)) {
+      changed++;
+    }
+  }
+
+  if (changed > 0) {
+    await backend.saveStorage(user, storage);
+  }
+
+  return changed;
+};
+
+// Returns how many files gained the tag, or null if the tag is invalid
+export const addTagToFiles = async (
+  backend: StorageBackend,
+  user: User,
+  fileIds: string[],
+  tag: string
+): Promise<number | null> => {
+  const normalized = normalizeTag(tag);
+
+  if (!normalized) {
+    return null;
+  }
+
+  return updateFiles(backend, user, file => fileIds.includes(file.id), file => {
+    if (file.tags?.includes(normalized)) return false;
+    file.tags = [...(file.tags ?? []), normalized];
+    return true;
+  });
+};
+
+// Returns how many files lost the tag
+export const removeTagFromFiles = (
+  backend: StorageBackend,
+  user: User,
+  fileIds: string[],
+  tag: string
+): Promise<number> => {
+  return updateFiles(backend, user, file => fileIds.includes(file.id), file => {
+    if (!file.tags?.includes(tag)) return false;
+    file.tags = file.tags.filter(t => t !== tag);
+    if (file.tags.length === 0) delete file.tags;
+    return true;
+  });
+};
+
+// Rename a tag on every file, trashed ones included; files that already have the new tag keep
+// one copy. Returns how many files changed, or null if the new name is invalid.
+export const renameTag = async (
+  backend: StorageBackend,
+  user: User,
+  tag: string,
+  newTag: string
+): Promise<number | null> => {
+  const normalized = normalizeTag(newTag);
+
+  if (!normalized) {
+    return null;
+  }
+
+  if (normalized === tag) {
+    return 0;
+  }
+
+  return updateFiles(backend, user, file => file.tags?.includes(tag) ?? false, file => {
+    file.tags = Array.from(new Set(file.tags!.map(t => (t === tag ? normalized : t))));
+    return true;
+  });
+};
+
+// Remove a tag from every file, trashed ones included; returns how many files changed
+export const deleteTag = (backend: StorageBackend, user: User, tag: string): Promise<number> => {
+  return updateFiles(backend, user, file => file.tags?.includes(tag) ?? false, file => {
+    file.tags = file.tags!.filter(t => t !== tag);
+    if (file.tags.length === 0) delete file.tags;
+    return true;
+  });
+};
+
+export const setStarred = (backend: StorageBackend, user: User, fileIds: string[], starred: boolean): Promise<number> => {
+  return updateFiles(backend, user, file => fileIds.includes(file.id), file => {
+    if ((file.starred ?? false) === starred) return false;
+    if (starred) {
+      file.starred = true;
+    } else {
+      delete file.starred;
+    }
+    return true;
+  });
+};
+
+// A null label clears it
+export const setColorLabel = (
+  backend: StorageBackend,
+  user: User,
+  fileIds: string[],
+  colorLabel: ColorLabel | null
+): Promise<number> => {
+  return updateFiles(backend, user, file => fileIds.includes(file.id), file => {
+    if ((file.colorLabel ?? null) === colorLabel) return false;
+    if (colorLabel) {
+      file.colorLabel = colorLabel;
+    } else {
+      delete file.colorLabel;
+    }
+    return true;
+  });
+};
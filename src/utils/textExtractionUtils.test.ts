@@ -0,0 +1,37 @@
+import { deflateSync } from 'node:zlib';
+import { describe, it, expect } from 'vitest';
+import { extractText } from './textExtractionUtils';
+
+const pdfStream = (content: string, compressed: boolean): Buffer => {
+  const data = compressed ? deflateSync(Buffer.from(content, 'latin1')) : Buffer.from(content, 'latin1');
+  const dictionary = compressed ? `<< /Length ${data.length} /Filter /FlateDecode >>` : `<< /Length ${data.length} >>`;
+  return Buffer.concat([Buffer.from(`${dictionary}\nstream\n`, 'latin1'), data, Buffer.from('\nendstream\n', 'latin1')]);
+};
+
+const makePdf = (pages: string[], compressed: boolean): Blob => {
+  const objects = pages.map((text, index) => Buffer.concat([
+    Buffer.from(`${index + 4} 0 obj\n`, 'latin1'),
+    pdfStream(`BT /F1 12 Tf 72 712 Td (${text}) Tj ET`, compressed),
+    Buffer.from('endobj\n', 'latin1'),
+  ]));
+  return new Blob([Buffer.from('%PDF-1.4\n', 'latin1'), ...objects, Buffer.from('%%EOF\n', 'latin1')]);
+};
+
+const pdfFile = (content: Blob) => ({ name: 'report.pdf', type: 'application/pdf', size: content.size });
+
+describe('extractText', () => {
+  it('reads text from every compressed stream of a PDF', async () => {
+    const pdf = makePdf(['Hello first page', 'Second page text', 'Third page text'], true);
+    expect(await extractText(pdf, pdfFile(pdf))).toBe('Hello first page\nSecond page text\nThird page text');
+  });
+
+  it('reads text from every unfiltered stream of a PDF', async () => {
+    const pdf = makePdf(['Plain one', 'Plain two'], false);
+    expect(await extractText(pdf, pdfFile(pdf))).toBe('Plain one\nPlain two');
+  });
+
+  it('returns null for files without extractable text', async () => {
+    const image = new Blob(['not text']);
+    expect(await extractText(image, { name: 'photo.png', type: 'image/png', size: image.size })).toBeNull();
+  });
+});
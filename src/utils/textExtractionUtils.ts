@@ -0,0 +1,172 @@
+// Plain text from file contents, for the search index. Text and code files are read as they are,
+// DOCX text comes from word/document.xml, and PDFs are scanned for the strings drawn by their
+// text operators. The PDF reader is best-effort: it does not map custom font encodings, so text
+// set in embedded CID fonts is not found.
+import type { FileMetadata } from './storageUtils';
+import { getPreviewKind, getFileExtension } from './previewUtils';
+import { readZip } from './zipUtils';
+
+// Larger files are not indexed; their text would be truncated anyway
+export const MAX_EXTRACT_BYTES = 32 * 1024 * 1024;
+export const MAX_EXTRACTED_CHARS = 200_000;
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+type TextSource = Pick<FileMetadata, 'name' | 'type' | 'size'>;
+
+const isDocx = (file: TextSource): boolean => {
+  return file.type === DOCX_TYPE || getFileExtension(file.name) === 'docx';
+};
+
+const isPdf = (file: TextSource): boolean => {
+  return file.type === 'application/pdf' || getFileExtension(file.name) === 'pdf';
+};
+
+export const canExtractText = (file: TextSource): boolean => {
+  return file.size <= MAX_EXTRACT_BYTES && (getPreviewKind(file) === 'text' || isPdf(file) || isDocx(file));
+};
+
+const extractDocxText = async (content: Blob): Promise<string> => {
+  const entry = (await readZip(content)).find(e => e.path === 'word/document.xml');
+  if (!entry) return '';
+
+  const xml = new DOMParser().parseFromString(await (await entry.open()).text(), 'application/xml');
+  return Array.from(xml.getElementsByTagName('w:p'))
+    .map(paragraph => Array.from(paragraph.getElementsByTagName('w:t')).map(t => t.textContent ?? '').join(''))
+    .join('\n');
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+};
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Read a literal string starting just after its "(", returning it and the index after its ")"
+const readPdfString = (content: string, start: number): [string, number] => {
+  let text = '';
+  let depth = 1;
+  let i = start;
+
+  while (i < content.length) {
+    const char = content[i++];
+    if (char === '\\') {
+      const next = content[i++];
+      if (next in PDF_ESCAPES) {
+        text += PDF_ESCAPES[next];
+      } else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(content.slice(i - 1, i + 2))![0];
+        text += String.fromCharCode(parseInt(octal, 8));
+        i += octal.length - 1;
+      } else if (next !== '\n' && next !== '\r') {
+        text += next;
+      }
+    } else if (char === '(') {
+      depth++;
+      text += char;
+    } else if (char === ')') {
+      if (--depth === 0) break;
+      text += char;
+    } else {
+      text += char;
+    }
+  }
+
+  return [text, i];
+};
+
+// Collect the strings shown by Tj, TJ, ' and " in a content stream, with line breaks between
+// text objects and lines
+const readPdfContentText = (content: string): string => {
+  let text = '';
+  let pending = '';
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === '(') {
+      const [value, next] = readPdfString(content, i + 1);
+      pending += value;
+      i = next;
+    } else if (char === '%') {
+      // Comment up to the end of the line
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = /^[A-Za-z'"*]+/.exec(content.slice(i, i + 8))![0];
+      if (operator === 'Tj' || operator === 'TJ' || operator === "'" || operator === '"') {
+        text += (operator === 'Tj' || operator === 'TJ' ? '' : '\n') + pending;
+      } else if (operator === 'ET' || operator === 'T*' || operator === 'Td' || operator === 'TD') {
+        text += '\n';
+      }
+      pending = '';
+      i += operator.length;
+    } else if (char === '-' && pending) {
+      // Large negative offsets inside a TJ array stand in for word spaces
+      const number = /^-\d+(\.\d+)?/.exec(content.slice(i, i + 12));
+      if (number && Number(number[0]) < -200) pending += ' ';
+      i += number ? number[0].length : 1;
+    } else {
+      i++;
+    }
+  }
+
+  return text;
+};
+
+const extractPdfText = async (content: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await content.arrayBuffer());
+  const raw = new TextDecoder('latin1').decode(bytes);
+  const parts: string[] = [];
+  const streamPattern = /stream\r?\n/g;
+  let length = 0;
+
+  for (let match = streamPattern.exec(raw); match && length < MAX_EXTRACTED_CHARS; match = streamPattern.exec(raw)) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+
+    // Only unfiltered and Flate streams can hold readable text operators
+    const dictionary = raw.slice(raw.lastIndexOf('<<', match.index), match.index);
+    const data = bytes.subarray(start, end);
+    const decoded = /\/Filter\s*\/FlateDecode/.test(dictionary)
+      ? await inflate(data)
+      : /\/Filter/.test(dictionary) ? null : data;
+
+    if (decoded) {
+      const text = readPdfContentText(new TextDecoder('latin1').decode(decoded)).trim();
+      if (text) {
+        parts.push(text);
+        length += text.length;
+      }
+    }
+    // Resume after the whole keyword, or the "stream" inside "endstream" would match next
+    streamPattern.lastIndex = end + 'endstream'.length;
+  }
+
+  return parts.join('\n');
+};
+
+// Returns null for files whose type has no text to extract
+export const extractText = async (content: Blob, file: TextSource): Promise<string | null> => {
+  if (!canExtractText(file)) {
+    return null;
+  }
+
+  let text: string;
+  if (isPdf(file)) {
+    text = await extractPdfText(content);
+  } else if (isDocx(file)) {
+    text = await extractDocxText(content);
+  } else {
+    text = await content.slice(0, MAX_EXTRACT_BYTES).text();
+  }
+
+  // Collapse runs of blank space so snippets read naturally
+  return text.replace(/[ \t\f\v]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim().slice(0, MAX_EXTRACTED_CHARS);
+};
@@ -0,0 +1,171 @@
+// Thumbnails for image and video files.
+// A thumbnail is a small JPEG drawn on a canvas, encrypted under its own data key and stored as
+// a `<fileId>.thumb` blob; the file's metadata records where it lives.
+import type { StorageBackend } from './storageBackend';
+import { User, FileMetadata, getUserStorage, getStoredFiles, getContentBlobId, sealBlob, openBlob } from './storageUtils';
+
+// Longest edge of a generated thumbnail, in pixels
+export const THUMBNAIL_SIZE = 320;
+
+const THUMBNAIL_TYPE = 'image/jpeg';
+const THUMBNAIL_QUALITY = 0.8;
+
+// Decoding media that never loads must not hold up an upload
+const MEDIA_LOAD_TIMEOUT = 10000;
+
+// Backfilling decrypts the whole file in memory, so very large files are skipped
+const MAX_BACKFILL_SOURCE_BYTES = 256 * 1024 * 1024;
+
+const getThumbnailBlobId = (fileId: string): string => `${fileId}.thumb`;
+
+export const canHaveThumbnail = (type: string): boolean => {
+  return type.startsWith('image/') || type.startsWith('video/');
+};
+
+const withTimeout = <T>(promise: Promise<T>, message: string): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), MEDIA_LOAD_TIMEOUT);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image could not be decoded'));
+    image.src = url;
+  });
+};
+
+// Seek a little way in, past the black frames many videos start with
+const loadVideoFrame = (url: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => {
+      video.currentTime = Number.isFinite(video.duration) ? Math.min(1, video.duration / 10) : 0;
+    };
+    video.onseeked = () => resolve(video);
+    video.onerror = () => reject(new Error('Video could not be decoded'));
+    video.src = url;
+  });
+};
+
+const drawThumbnail = (source: CanvasImageSource, width: number, height: number): Promise<Blob | null> => {
+  if (!width || !height) {
+    return Promise.resolve(null);
+  }
+
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.resolve(null);
+  }
+
+  // JPEG has no alpha channel, so transparent images are flattened onto white
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return new Promise(resolve => canvas.toBlob(resolve, THUMBNAIL_TYPE, THUMBNAIL_QUALITY));
+};
+
+// Downscale an image or capture a video frame. Returns null for unsupported or undecodable media.
+export const generateThumbnail = async (source: Blob, type: string): Promise<Blob | null> => {
+  if (!canHaveThumbnail(type)) {
+    return null;
+  }
+
+  const url = URL.createObjectURL(source.type ? source : new Blob([source], { type }));
+
+  try {
+    if (type.startsWith('image/')) {
+      const image = await withTimeout(loadImage(url), 'Image took too long to load');
+      return await drawThumbnail(image, image.naturalWidth, image.naturalHeight);
+    }
+
+    const video = await withTimeout(loadVideoFrame(url), 'Video took too long to load');
+    return await drawThumbnail(video, video.videoWidth, video.videoHeight);
+  } catch (error) {
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Generate and store the thumbnail of a committed file from its plaintext content.
+// Returns false when no thumbnail could be made; the file is then marked so it is not retried.
+export const attachThumbnail = async (
+  backend: StorageBackend,
+  user: User,
+  fileId: string,
+  source: Blob,
+  type: string
+): Promise<boolean> => {
+  const image = await generateThumbnail(source, type);
+  const blobId = getThumbnailBlobId(fileId);
+
+  let thumbnail: FileMetadata['thumbnail'] = null;
+  if (image) {
+    const { data, encryption } = await sealBlob(image);
+    await backend.putBlob(user, blobId, data);
+    thumbnail = { blobId, type: THUMBNAIL_TYPE, encryption };
+  }
+
+  // Re-read the metadata so changes made while the thumbnail was drawn are kept
+  const storage = await getUserStorage(backend, user);
+  const file = getStoredFiles(storage).find(f => f.id === fileId);
+
+  if (!file) {
+    // The file was deleted in the meantime
+    if (image) {
+      await backend.deleteBlob(user, blobId);
+    }
+    return false;
+  }
+
+  file.thumbnail = thumbnail;
+  await backend.saveStorage(user, storage);
+  return image !== null;
+};
+
+export const getThumbnail = async (backend: StorageBackend, user: User, file: FileMetadata): Promise<Blob | null> => {
+  if (!file.thumbnail) {
+    return null;
+  }
+
+  const data = await backend.getBlob(user, file.thumbnail.blobId);
+  return data ? openBlob(data, file.thumbnail) : null;
+};
+
+// Create thumbnails for media files stored before thumbnails existed. Returns how many were made.
+export const backfillThumbnails = async (backend: StorageBackend, user: User): Promise<number> => {
+  const storage = await getUserStorage(backend, user);
+  const pending = storage.files.filter(file =>
+    file.thumbnail === undefined && canHaveThumbnail(file.type) && file.size <= MAX_BACKFILL_SOURCE_BYTES
+  );
+  let created = 0;
+
+  for (const file of pending) {
+    const data = await backend.getBlob(user, getContentBlobId(file));
+
+    if (!data) {
+      continue;
+    }
+
+    if (await attachThumbnail(backend, user, file.id, await openBlob(data, file), file.type)) {
+      created++;
+    }
+  }
+
+  return created;
+};
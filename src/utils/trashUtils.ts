@@ -0,0 +1,176 @@
+// Trash: deleted files keep their blobs and keep counting toward the quota until they are
+// purged, either by hand or automatically once they are older than the user's retention period.
+import type { StorageBackend } from './storageBackend';
+import {
+  User,
+  UserStorage,
+  FileMetadata,
+  TrashedFile,
+  getUserStorage,
+  getFileBlobIds,
+  getStoredSize,
+  findStoredUser,
+  updateStoredUser
+} from './storageUtils';
+import { normalizePath, getPathSegments } from './pathUtils';
+import { removeFromSearchIndex } from './searchUtils';
+import { logActivity, describeFile } from './activityUtils';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+// Choices offered in the UI; 0 keeps trashed files until they are purged by hand
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90, 0];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const getTrashRetentionDays = (username: string): number => {
+  return findStoredUser(username)?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = (username: string, days: number): boolean => {
+  if (!Number.isInteger(days) || days < 0) {
+    return false;
+  }
+
+  return updateStoredUser(username, user => {
+    user.trashRetentionDays = days;
+  });
+};
+
+// When a trashed file will be purged automatically, or null if it is kept forever
+export const getPurgeDate = (file: TrashedFile, retentionDays: number): number | null => {
+  return retentionDays > 0 ? file.trashedAt + retentionDays * DAY : null;
+};
+
+export const getTrashedSpace = (storage: UserStorage): number => {
+  return storage.trash.reduce((total, file) => total + getStoredSize(file), 0);
+};
+
+const toTrashedFile = (file: FileMetadata, trashedAt: number): TrashedFile => ({
+  ...file,
+  path: normalizePath(file.path),
+  trashedAt,
+});
+
+// Move files from the drive into the trash; their space stays in use
+export const trashFiles = (storage: UserStorage, files: FileMetadata[]): void => {
+  const trashedAt = Date.now();
+  storage.files = storage.files.filter(file => !files.includes(file));
+  storage.trash.push(...files.map(file => toTrashedFile(file, trashedAt)));
+};
+
+export const trashFile = async (backend: StorageBackend, user: User, fileId: string): Promise<boolean> => {
+  const storage = await getUserStorage(backend, user);
+  const file = storage.files.find(f => f.id === fileId);
+
+  if (!file) {
+    return false;
+  }
+
+  trashFiles(storage, [file]);
+  logActivity(storage, [{ action: 'trash', ...describeFile(file) }]);
+  await backend.saveStorage(user, storage);
+
+  return true;
+};
+
+// Move several files to the trash with a single save; returns how many were found
+export const trashFilesById = async (backend: StorageBackend, user: User, fileIds: string[]): Promise<number> => {
+  const storage = await getUserStorage(backend, user);
+  const files = storage.files.filter(f => fileIds.includes(f.id));
+
+  if (files.length === 0) {
+    return 0;
+  }
+
+  trashFiles(storage, files);
+  logActivity(storage, files.map(file => ({ action: 'trash' as const, ...describeFile(file) })));
+  await backend.saveStorage(user, storage);
+
+  return files.length;
+};
+
+// Put a trashed file back in the folder it was deleted from, recreating that folder if needed.
+// Returns the folder it was restored to, or null if the file is not in the trash.
+export const restoreFile = async (backend: StorageBackend, user: User, fileId: string): Promise<string | null> => {
+  const storage = await getUserStorage(backend, user);
+  const file = storage.trash.find(f => f.id === fileId);
+
+  if (!file) {
+    return null;
+  }
+
+  const path = normalizePath(file.path);
+  for (const segment of getPathSegments(path)) {
+    if (!storage.folders.includes(segment.path)) {
+      storage.folders.push(segment.path);
+    }
+  }
+
+  const { trashedAt, ...restored } = file;
+  storage.trash = storage.trash.filter(f => f !== file);
+  storage.files.push({ ...restored, path });
+  logActivity(storage, [{ action: 'restore', ...describeFile(file) }]);
+  await backend.saveStorage(user, storage);
+
+  return path;
+};
+
+// Permanently delete trashed files. The metadata is saved first, so a failure part-way
+// only leaves orphaned blobs for reconciliation to clean up.
+const purgeFiles = async (
+  backend: StorageBackend,
+  user: User,
+  storage: UserStorage,
+  files: TrashedFile[]
+): Promise<number> => {
+  if (files.length === 0) {
+    return 0;
+  }
+
+  storage.trash = storage.trash.filter(file => !files.includes(file));
+  storage.usedSpace -= files.reduce((total, file) => total + getStoredSize(file), 0);
+  logActivity(storage, files.map(file => ({ action: 'delete' as const, ...describeFile(file) })));
+  await backend.saveStorage(user, storage);
+
+  for (const file of files) {
+    for (const blobId of getFileBlobIds(file)) {
+      await backend.deleteBlob(user, blobId);
+    }
+  }
+  await removeFromSearchIndex(backend, user, files.map(file => file.id)).catch(() => undefined);
+
+  return files.length;
+};
+
+export const purgeFile = async (backend: StorageBackend, user: User, fileId: string): Promise<boolean> => {
+  const storage = await getUserStorage(backend, user);
+  const file = storage.trash.find(f => f.id === fileId);
+
+  if (!file) {
+    return false;
+  }
+
+  await purgeFiles(backend, user, storage, [file]);
+  return true;
+};
+
+export const emptyTrash = async (backend: StorageBackend, user: User): Promise<number> => {
+  const storage = await getUserStorage(backend, user);
+  return purgeFiles(backend, user, storage, storage.trash);
+};
+
+// Purge files that have been in the trash longer than the user's retention period
+export const purgeExpiredTrash = async (backend: StorageBackend, user: User, now = Date.now()): Promise<number> => {
+  const retentionDays = getTrashRetentionDays(user.username);
+  if (retentionDays === 0) {
+    return 0;
+  }
+
+  const storage = await getUserStorage(backend, user);
+  const expired = storage.trash.filter(file => {
+    const purgeDate = getPurgeDate(file, retentionDays);
+    return purgeDate !== null && purgeDate <= now;
+  });
+
+  return purgeFiles(backend, user, storage, expired);
+};
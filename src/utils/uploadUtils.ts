@@ -0,0 +1,292 @@
+// Chunked, resumable uploads.
+// A file is encrypted and written one segment at a time as `<fileId>.part<n>` blobs. Progress is
+// tracked in an upload record kept in IndexedDB, so an upload interrupted by a reload can pick up
+// from the last committed chunk. Once every chunk is written the parts are joined into the final
+// blob and the file's metadata is committed.
+import type { StorageBackend } from './storageBackend';
+import { User, FileMetadata, getUserStorage, getStoredFiles, getFileBlobIds, getMasterKey, generateFileId } from './storageUtils';
+import {
+  ENCRYPTION_SEGMENT_SIZE,
+  generateFileKey,
+  wrapFileKey,
+  unwrapFileKey,
+  encryptSegment,
+  getEncryptedSize
+} from './cryptoUtils';
+import { putUploadRecord, getUploadRecords, deleteUploadRecord } from './blobStore';
+import { ROOT_PATH, normalizePath } from './pathUtils';
+import { StorageError, toStorageError } from './storageErrors';
+import { getDeviceStorageEstimate } from './quotaUtils';
+import { canHaveThumbnail, attachThumbnail } from './thumbnailUtils';
+import { addFileVersion, getMaxVersions } from './versionUtils';
+import { canExtractText } from './textExtractionUtils';
+import { indexFileContent } from './searchUtils';
+import { logActivity } from './activityUtils';
+
+export interface UploadRecord {
+  id: string;
+  username: string;
+  storageKey: string;
+  file: File;
+  folderPath: string;
+  fileId: string; // id of the new file, and of the blob its content is written to
+  replaceFileId?: string; // existing file that receives the upload as a new version
+  wrappedKey: string;
+  chunkSize: number;
+  committedChunks: number;
+  createdAt: number;
+}
+
+export interface UploadProgress {
+  bytesCommitted: number;
+  totalBytes: number;
+  committedChunks: number;
+  totalChunks: number;
+}
+
+export type UploadResult = 'completed' | 'paused';
+
+interface RunUploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export const getChunkCount = (record: UploadRecord): number => {
+  return Math.max(1, Math.ceil(record.file.size / record.chunkSize));
+};
+
+export const getUploadProgress = (record: UploadRecord): UploadProgress => ({
+  bytesCommitted: Math.min(record.committedChunks * record.chunkSize, record.file.size),
+  totalBytes: record.file.size,
+  committedChunks: record.committedChunks,
+  totalChunks: getChunkCount(record),
+});
+
+const getPartId = (fileId: string, index: number): string => `${fileId}.part${index}`;
+
+// Fail early, before any bytes are written, when the file cannot fit
+const assertSpaceAvailable = async (backend: StorageBackend, usedSpace: number, totalSpace: number, file: File) => {
+  if (usedSpace + file.size > totalSpace) {
+    throw new StorageError('quota-exceeded', `${file.name} does not fit in the remaining storage space`);
+  }
+
+  // Chunks and the joined blob briefly coexist, so the browser needs room for both
+  if (backend.kind !== 'http') {
+    const estimate = await getDeviceStorageEstimate();
+    if (estimate && estimate.available < getEncryptedSize(file.size) * 2) {
+      throw new StorageError('device-full', `The browser does not have enough free space for ${file.name}`);
+    }
+  }
+};
+
+// Start a new upload. Throws a StorageError when the file does not fit.
+// With `replaceFileId` the upload becomes the newest version of that file instead of a new file.
+export const createUpload = async (
+  backend: StorageBackend,
+  user: User,
+  file: File,
+  folderPath: string = ROOT_PATH,
+  replaceFileId?: string
+): Promise<UploadRecord> => {
+  const storage = await getUserStorage(backend, user);
+
+  await assertSpaceAvailable(backend, storage.usedSpace, storage.totalSpace, file);
+
+  const fileId = generateFileId(storage);
+  const record: UploadRecord = {
+    id: fileId,
+    username: user.username,
+    storageKey: user.storageKey,
+    file,
+    folderPath,
+    fileId,
+    replaceFileId,
+    wrappedKey: await wrapFileKey(await generateFileKey(), getMasterKey()),
+    chunkSize: ENCRYPTION_SEGMENT_SIZE,
+    committedChunks: 0,
+    createdAt: Date.now(),
+  };
+
+  try {
+    await putUploadRecord(record);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+  return record;
+};
+
+// Write the remaining chunks of an upload. Aborting the signal pauses after the chunk in flight.
+// On failure the committed chunks stay in place so the upload can be resumed or cancelled; the
+// file only becomes visible once commitUpload has written both its blob and its metadata.
+export const runUpload = async (
+  backend: StorageBackend,
+  user: User,
+  record: UploadRecord,
+  options: RunUploadOptions = {}
+): Promise<UploadResult> => {
+  try {
+    return await writeChunks(backend, user, record, options);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+};
+
+const writeChunks = async (
+  backend: StorageBackend,
+  user: User,
+  record: UploadRecord,
+  { signal, onProgress }: RunUploadOptions
+): Promise<UploadResult> => {
+  const fileKey = await unwrapFileKey(record.wrappedKey, getMasterKey());
+  const totalChunks = getChunkCount(record);
+
+  onProgress?.(getUploadProgress(record));
+
+  while (record.committedChunks < totalChunks) {
+    if (signal?.aborted) {
+      return 'paused';
+    }
+
+    const index = record.committedChunks;
+    const start = index * record.chunkSize;
+    const segment = await encryptSegment(record.file.slice(start, start + record.chunkSize), fileKey, index);
+
+    await backend.putBlob(user, getPartId(record.fileId, index), segment);
+    record.committedChunks = index + 1;
+    await putUploadRecord(record);
+
+    onProgress?.(getUploadProgress(record));
+  }
+
+  await commitUpload(backend, user, record);
+  return 'completed';
+};
+
+// Join the written chunks into the final blob and record the file's metadata
+const commitUpload = async (backend: StorageBackend, user: User, record: UploadRecord): Promise<void> => {
+  // An earlier attempt committed the file but could not clear its chunks
+  if (getStoredFiles(await getUserStorage(backend, user)).some(file => getFileBlobIds(file).includes(record.fileId))) {
+    await discardUpload(backend, user, record);
+    return;
+  }
+
+  const totalChunks = getChunkCount(record);
+  const parts: Blob[] = [];
+
+  for (let index = 0; index < totalChunks; index++) {
+    const part = await backend.getBlob(user, getPartId(record.fileId, index));
+    if (!part) {
+      throw new StorageError('corrupted', `Chunk ${index} of ${record.file.name} is missing`);
+    }
+    parts.push(part);
+  }
+
+  // Other uploads may have used up the space since this one started
+  const storage = await getUserStorage(backend, user);
+  if (storage.usedSpace + record.file.size > storage.totalSpace) {
+    await discardUpload(backend, user, record);
+    throw new StorageError('quota-exceeded', `${record.file.name} no longer fits in the remaining storage space`);
+  }
+
+  const content = {
+    blobId: record.fileId,
+    type: record.file.type,
+    size: record.file.size,
+    lastModified: record.file.lastModified,
+    encryption: {
+      algorithm: 'AES-GCM' as const,
+      wrappedKey: record.wrappedKey,
+      segmentSize: record.chunkSize,
+    },
+  };
+
+  // Falls back to a new file when the file being replaced was deleted in the meantime
+  const replacedFile = storage.files.find(file => file.id === record.replaceFileId);
+  const previousThumbnail = replacedFile?.thumbnail;
+  let evictedBlobIds: string[] = [];
+
+  // Blob and metadata are committed together: if either write fails, the joined blob is removed
+  // again and the chunks are kept for a retry
+  try {
+    await backend.putBlob(user, record.fileId, new Blob(parts, { type: 'application/octet-stream' }));
+
+    if (replacedFile) {
+      const evicted = addFileVersion(storage, replacedFile, content, getMaxVersions(user.username));
+      evictedBlobIds = evicted.map(version => version.blobId);
+      delete replacedFile.thumbnail;
+    } else {
+      const { blobId, ...metadata } = content;
+      const fileMetadata: FileMetadata = { id: record.fileId, name: record.file.name, path: record.folderPath, ...metadata };
+      storage.files.push(fileMetadata);
+      storage.usedSpace += record.file.size;
+    }
+
+    logActivity(storage, [{
+      action: 'upload',
+      name: replacedFile?.name ?? record.file.name,
+      path: replacedFile ? normalizePath(replacedFile.path) : record.folderPath,
+      fileId: replacedFile?.id ?? record.fileId,
+      detail: replacedFile ? 'as a new version' : undefined,
+    }]);
+    await backend.saveStorage(user, storage);
+  } catch (error) {
+    await backend.deleteBlob(user, record.fileId).catch(() => undefined);
+    throw error;
+  }
+
+  // The file is committed; leftover chunks and dropped versions are only clutter from here on
+  await discardUpload(backend, user, record).catch(() => undefined);
+  for (const blobId of [...evictedBlobIds, ...(previousThumbnail ? [previousThumbnail.blobId] : [])]) {
+    await backend.deleteBlob(user, blobId).catch(() => undefined);
+  }
+
+  // A missing thumbnail or index entry only affects how the file is displayed and found
+  const fileId = replacedFile?.id ?? record.fileId;
+  if (canHaveThumbnail(record.file.type)) {
+    await attachThumbnail(backend, user, fileId, record.file, record.file.type).catch(() => undefined);
+  }
+  if (canExtractText(record.file)) {
+    const source = { id: fileId, blobId: record.fileId, name: record.file.name, type: record.file.type, size: record.file.size };
+    await indexFileContent(backend, user, source, record.file).catch(() => undefined);
+  }
+};
+
+// Remove an upload's chunks and its record
+const discardUpload = async (backend: StorageBackend, user: User, record: UploadRecord): Promise<void> => {
+  for (let index = 0; index < getChunkCount(record); index++) {
+    await backend.deleteBlob(user, getPartId(record.fileId, index));
+  }
+  await deleteUploadRecord(record.id);
+};
+
+export const cancelUpload = (backend: StorageBackend, user: User, record: UploadRecord): Promise<void> => {
+  return discardUpload(backend, user, record);
+};
+
+// Uploads that were started by this user and never finished, oldest first
+export const getPendingUploads = async (user: User): Promise<UploadRecord[]> => {
+  const records = await getUploadRecords<UploadRecord>();
+  return records
+    .filter(record => record.username === user.username && record.storageKey === user.storageKey)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Upload a file in one go; a failed upload leaves nothing behind
+export const uploadFile = async (
+  backend: StorageBackend,
+  user: User,
+  file: File,
+  folderPath: string = ROOT_PATH
+): Promise<boolean> => {
+  let record: UploadRecord | null = null;
+
+  try {
+    record = await createUpload(backend, user, file, folderPath);
+    return (await runUpload(backend, user, record)) === 'completed';
+  } catch (error) {
+    if (record) {
+      await cancelUpload(backend, user, record).catch(() => undefined);
+    }
+    return false;
+  }
+};
@@ -0,0 +1,471 @@
+// Sharing files and folders between registered users. The owner wraps the data key of every
+// shared file with the recipient's public key and keeps those copies in the share record. The
+// files stay in the owner's namespace, so they only count toward the owner's quota. Recipients
+// never see that namespace: the backend resolves it from the share, hands them the shared files
+// only, and applies an editor's changes itself after checking the role. Keys for files editors
+// add are wrapped with the owner's public key until the owner's next sync re-wraps them under the
+// master key.
+import type { StorageBackend } from './storageBackend';
+import {
+  User,
+  UserStorage,
+  FileMetadata,
+  getUserStorage,
+  getStoredFiles,
+  getContentBlobId,
+  getFileBlobIds,
+  findStoredUser,
+  getUniqueFileName,
+  getMasterKey,
+  getPrivateKey,
+  unwrapDataKey
+} from './storageUtils';
+import {
+  ENCRYPTION_SEGMENT_SIZE,
+  generateFileKey,
+  wrapFileKey,
+  encryptBlob,
+  decryptBlob,
+  generateUuidV7,
+  importPublicKey,
+  wrapKeyForPublicKey,
+  unwrapKeyWithPrivateKey
+} from './cryptoUtils';
+import { StorageError } from './storageErrors';
+import { trashFiles } from './trashUtils';
+import { FileContent, addFileVersion } from './versionUtils';
+import { ROOT_PATH, normalizePath, getFolderName, isWithinFolder } from './pathUtils';
+import { recordActivity } from './activityUtils';
+
+export type ShareRole = 'viewer' | 'editor';
+export type SharedItemType = 'file' | 'folder';
+
+export interface UserShare {
+  id: string;
+  owner: string; // username; the backend keeps the owner's namespace next to the record
+  recipient: string; // username
+  itemType: SharedItemType;
+  itemId: string; // file id, or folder path
+  name: string; // file or folder name, kept for display
+  role: ShareRole;
+  createdAt: number;
+  fileKeys: Record<string, string>; // content blob id -> data key wrapped with the recipient's public key
+}
+
+export type ShareWithUserResult =
+  | { status: 'ok'; share: UserShare }
+  | { status: 'unknown-user' | 'own-account' | 'no-key' | 'not-found' };
+
+// A change an editor makes to the shared files. `add` puts a new file at the top of a shared
+// folder and `version` gives a shared file new content; both come with the encrypted blob.
+export type SharedFileUpdate =
+  | { type: 'trash'; fileId: string }
+  | {
+      type: 'add';
+      file: Pick<FileMetadata, 'id' | 'name' | 'type' | 'size' | 'lastModified' | 'encryption'>;
+      fileKey: string; // the data key, wrapped with the recipient's public key
+    }
+  | { type: 'version'; fileId: string; content: Omit<FileContent, 'encryption'> };
+
+// A file as seen by a recipient
+export interface SharedItemFile {
+  file: FileMetadata;
+  folderPath: string; // location below the shared folder, '/' for its top level
+  canOpen: boolean; // false until the owner has wrapped a key for the current content
+}
+
+// Live files covered by a share
+export const getSharedFiles = (storage: UserStorage, share: UserShare): FileMetadata[] => {
+  if (share.itemType === 'file') {
+    return storage.files.filter(file => file.id === share.itemId);
+  }
+  return storage.files.filter(file => isWithinFolder(normalizePath(file.path), share.itemId));
+};
+
+// Trashed files keep their share, so restoring them makes them visible again
+const sharedItemExists = (storage: UserStorage, share: UserShare): boolean => {
+  return share.itemType === 'file'
+    ? getStoredFiles(storage).some(file => file.id === share.itemId)
+    : storage.folders.includes(share.itemId);
+};
+
+const getUserPublicKey = (username: string): Promise<CryptoKey> | null => {
+  const publicKey = findStoredUser(username)?.publicKey;
+  return publicKey ? importPublicKey(publicKey) : null;
+};
+
+// Wrap keys for content the recipient cannot open yet and drop those no longer shared.
+// Returns whether the share changed.
+const refreshFileKeys = async (storage: UserStorage, share: UserShare): Promise<boolean> => {
+  let recipientKey: CryptoKey | null = null;
+  const fileKeys: Record<string, string> = {};
+
+  for (const file of getSharedFiles(storage, share)) {
+    const blobId = getContentBlobId(file);
+
+    if (share.fileKeys[blobId]) {
+      fileKeys[blobId] = share.fileKeys[blobId];
+    } else if (file.encryption) {
+      recipientKey ??= await getUserPublicKey(share.recipient);
+      if (recipientKey) {
+        fileKeys[blobId] = await wrapKeyForPublicKey(await unwrapDataKey(file.encryption), recipientKey);
+      }
+    }
+  }
+
+  const changed =
+    Object.keys(fileKeys).length !== Object.keys(share.fileKeys).length ||
+    Object.keys(fileKeys).some(blobId => !share.fileKeys[blobId]);
+  share.fileKeys = fileKeys;
+
+  return changed;
+};
+
+// The blob an update brings along, if any
+export const getUpdateBlobId = (update: SharedFileUpdate): string | null => {
+  if (update.type === 'add') return update.file.id;
+  if (update.type === 'version') return update.content.blobId;
+  return null;
+};
+
+// Apply an editor's change to the owner's storage and to the share. This is the storage layer's
+// half of sharing: a backend calls it after checking that the share was made to an editor, then
+// saves both records. Returns the blob ids the change made obsolete, or null if it does not apply
+// to the share.
+export const applySharedFileUpdate = (
+  storage: UserStorage,
+  share: UserShare,
+  update: SharedFileUpdate,
+  maxVersions: number
+): string[] | null => {
+  const blobId = getUpdateBlobId(update);
+
+  // New content needs an unused id, or it would overwrite the owner's own data
+  if (blobId && getStoredFiles(storage).some(file => file.id === blobId || getFileBlobIds(file).includes(blobId))) {
+    return null;
+  }
+
+  if (update.type === 'add') {
+    const { id, name, type, size, lastModified, encryption } = update.file;
+    if (share.itemType !== 'folder' || !encryption) {
+      return null;
+    }
+    if (storage.usedSpace + size > storage.totalSpace) {
+      throw new StorageError('quota-exceeded', `${name} does not fit in the owner's storage`);
+    }
+
+    storage.files.push({
+      id,
+      name: getUniqueFileName(storage, share.itemId, name),
+      type,
+      size,
+      lastModified,
+      path: share.itemId,
+      encryption: { ...encryption, keyWrapping: 'public-key' },
+    });
+    storage.usedSpace += size;
+    share.fileKeys[id] = update.fileKey;
+    return [];
+  }
+
+  const file = getSharedFiles(storage, share).find(f => f.id === update.fileId);
+  if (!file) {
+    return null;
+  }
+
+  if (update.type === 'trash') {
+    trashFiles(storage, [file]);
+    return [];
+  }
+
+  const wrappedKey = share.fileKeys[getContentBlobId(file)];
+  if (!file.encryption || !wrappedKey) {
+    return null;
+  }
+  if (storage.usedSpace + update.content.size > storage.totalSpace) {
+    throw new StorageError('quota-exceeded', `${file.name} does not fit in the owner's storage`);
+  }
+
+  // The new content reuses the file's data key, so both the owner's and the recipient's copies
+  // of the key stay valid
+  const evictedBlobIds = addFileVersion(storage, file, { ...update.content, encryption: file.encryption }, maxVersions)
+    .map(version => version.blobId);
+  if (file.thumbnail) {
+    evictedBlobIds.push(file.thumbnail.blobId);
+    delete file.thumbnail;
+  }
+  share.fileKeys[update.content.blobId] = wrappedKey;
+
+  return evictedBlobIds;
+};
+
+// Re-wrap the keys of files added by editors under the owner's master key. Returns how many
+// keys were adopted; the caller saves the storage.
+export const adoptCollaboratorKeys = async (storage: UserStorage): Promise<number> => {
+  let adopted = 0;
+
+  for (const file of getStoredFiles(storage)) {
+    const records = [file.encryption, ...(file.versions ?? []).map(version => version.encryption)];
+
+    for (const encryption of records) {
+      if (encryption?.keyWrapping === 'public-key') {
+        encryption.wrappedKey = await wrapFileKey(await unwrapDataKey(encryption), getMasterKey());
+        delete encryption.keyWrapping;
+        adopted++;
+      }
+    }
+  }
+
+  return adopted;
+};
+
+// Bring the owner's shares up to date: adopt keys from editors, drop shares of deleted items and
+// give recipients the keys of new content. Needs the owner's session, so it runs at login and
+// whenever the drive is refreshed.
+export const syncUserShares = async (backend: StorageBackend, owner: User): Promise<void> => {
+  const storage = await getUserStorage(backend, owner);
+
+  if ((await adoptCollaboratorKeys(storage)) > 0) {
+    await backend.saveStorage(owner, storage);
+  }
+
+  for (const share of await backend.listOwnedShares(owner)) {
+    if (!sharedItemExists(storage, share)) {
+      await backend.deleteUserShare(owner, share.id);
+    } else if (await refreshFileKeys(storage, share)) {
+      await backend.putUserShare(owner, share);
+    }
+  }
+};
+
+// Share a file or folder, or change the role of an existing share with the same user
+export const shareWithUser = async (
+  backend: StorageBackend,
+  owner: User,
+  itemType: SharedItemType,
+  itemId: string,
+  recipient: string,
+  role: ShareRole
+): Promise<ShareWithUserResult> => {
+  const recipientUser = findStoredUser(recipient.trim());
+
+  if (!recipientUser) {
+    return { status: 'unknown-user' };
+  }
+  if (recipientUser.username === owner.username) {
+    return { status: 'own-account' };
+  }
+  // Key pairs are created at login, so accounts that have not logged in since cannot receive files
+  if (!recipientUser.publicKey) {
+    return { status: 'no-key' };
+  }
+
+  const storage = await getUserStorage(backend, owner);
+  const name = itemType === 'file'
+    ? storage.files.find(file => file.id === itemId)?.name
+    : storage.folders.includes(itemId) ? getFolderName(itemId) : undefined;
+
+  if (!name) {
+    return { status: 'not-found' };
+  }
+
+  const existing = (await backend.listOwnedShares(owner)).find(share =>
+    share.recipient === recipientUser.username && share.itemType === itemType && share.itemId === itemId
+  );
+  const share: UserShare = existing
+    ? { ...existing, role }
+    : {
+        id: generateUuidV7(),
+        owner: owner.username,
+        recipient: recipientUser.username,
+        itemType,
+        itemId,
+        name,
+        role,
+        createdAt: Date.now(),
+        fileKeys: {},
+      };
+
+  await refreshFileKeys(storage, share);
+  await backend.putUserShare(owner, share);
+
+  const file = itemType === 'file' ? storage.files.find(f => f.id === itemId) : undefined;
+  await recordActivity(backend, owner, [{
+    action: 'share',
+    name,
+    path: file ? normalizePath(file.path) : itemId,
+    fileId: file?.id,
+    isFolder: itemType === 'folder' || undefined,
+    detail: `with ${recipientUser.username} as ${role}`,
+  }]).catch(() => undefined);
+
+  return { status: 'ok', share };
+};
+
+export const getOwnedShares = async (backend: StorageBackend, owner: User): Promise<UserShare[]> => {
+  const shares = await backend.listOwnedShares(owner);
+  return shares.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getReceivedShares = async (backend: StorageBackend, user: User): Promise<UserShare[]> => {
+  const shares = await backend.listReceivedShares(user);
+  return shares.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const revokeUserShare = async (backend: StorageBackend, owner: User, shareId: string): Promise<boolean> => {
+  const shares = await backend.listOwnedShares(owner);
+
+  if (!shares.some(share => share.id === shareId)) {
+    return false;
+  }
+
+  await backend.deleteUserShare(owner, shareId);
+  return true;
+};
+
+// Remove a share from the recipient's side
+export const leaveUserShare = async (backend: StorageBackend, user: User, shareId: string): Promise<boolean> => {
+  if (!(await backend.getReceivedShare(user, shareId))) {
+    return false;
+  }
+
+  await backend.deleteReceivedShare(user, shareId);
+  return true;
+};
+
+// Keep folder shares pointing at their folder after it, or a folder above it, was renamed or moved
+export const moveFolderShares = async (
+  backend: StorageBackend,
+  owner: User,
+  fromPath: string,
+  toPath: string
+): Promise<void> => {
+  for (const share of await backend.listOwnedShares(owner)) {
+    if (share.itemType === 'folder' && isWithinFolder(share.itemId, fromPath)) {
+      const itemId = toPath + share.itemId.slice(fromPath.length);
+      await backend.putUserShare(owner, { ...share, itemId, name: getFolderName(itemId) });
+    }
+  }
+};
+
+// File the owner's shares under a new storage namespace, after the storage key was rotated
+export const moveUserShares = async (backend: StorageBackend, user: User, rotatedUser: User): Promise<void> => {
+  for (const share of await backend.listOwnedShares(user)) {
+    await backend.putUserShare(rotatedUser, share);
+  }
+};
+
+export const getSharedItemFiles = async (
+  backend: StorageBackend,
+  user: User,
+  shareId: string
+): Promise<SharedItemFile[] | null> => {
+  const share = await backend.getReceivedShare(user, shareId);
+  const files = share && await backend.listSharedFiles(user, shareId);
+
+  if (!share || !files) {
+    return null;
+  }
+
+  return files.map(file => ({
+    file,
+    folderPath: share.itemType === 'folder'
+      ? normalizePath(normalizePath(file.path).slice(share.itemId.length))
+      : ROOT_PATH,
+    canOpen: Boolean(share.fileKeys[getContentBlobId(file)]),
+  }));
+};
+
+// Decrypt a shared file with the recipient's copy of its data key
+export const downloadSharedItemFile = async (
+  backend: StorageBackend,
+  user: User,
+  shareId: string,
+  fileId: string
+): Promise<Blob | null> => {
+  const share = await backend.getReceivedShare(user, shareId);
+  const file = share && (await backend.listSharedFiles(user, shareId))?.find(f => f.id === fileId);
+  const wrappedKey = file && share.fileKeys[getContentBlobId(file)];
+
+  if (!file?.encryption || !wrappedKey) {
+    return null;
+  }
+
+  const data = await backend.getSharedBlob(user, shareId, getContentBlobId(file));
+  if (!data) {
+    return null;
+  }
+
+  const fileKey = await unwrapKeyWithPrivateKey(wrappedKey, getPrivateKey());
+  return decryptBlob(data, fileKey, file.type, file.encryption.segmentSize);
+};
+
+// Move a shared file to the owner's trash; editors only
+export const trashSharedFile = async (
+  backend: StorageBackend,
+  user: User,
+  shareId: string,
+  fileId: string
+): Promise<boolean> => {
+  return backend.updateSharedFiles(user, shareId, { type: 'trash', fileId });
+};
+
+// Upload into a share; editors only. With `replaceFileId` the upload becomes a new version of that
+// file, otherwise it is added to the top of the shared folder. The space is charged to the owner.
+export const uploadToShare = async (
+  backend: StorageBackend,
+  user: User,
+  shareId: string,
+  upload: File,
+  replaceFileId?: string
+): Promise<boolean> => {
+  const share = await backend.getReceivedShare(user, shareId);
+
+  if (!share || share.role !== 'editor') {
+    return false;
+  }
+
+  // The backend refuses an id already in use, so the recipient needs no view of the owner's files
+  const blobId = generateUuidV7();
+
+  if (replaceFileId) {
+    const replacedFile = (await backend.listSharedFiles(user, shareId))?.find(f => f.id === replaceFileId);
+    const wrappedKey = replacedFile && share.fileKeys[getContentBlobId(replacedFile)];
+    if (!replacedFile?.encryption || !wrappedKey) {
+      return false;
+    }
+
+    const fileKey = await unwrapKeyWithPrivateKey(wrappedKey, getPrivateKey());
+    const data = await encryptBlob(upload, fileKey, replacedFile.encryption.segmentSize);
+    const content = { blobId, type: upload.type, size: upload.size, lastModified: upload.lastModified };
+
+    return backend.updateSharedFiles(user, shareId, { type: 'version', fileId: replaceFileId, content }, data);
+  }
+
+  const ownerKey = await getUserPublicKey(share.owner);
+  const recipientKey = await getUserPublicKey(user.username);
+  if (share.itemType !== 'folder' || !ownerKey || !recipientKey) {
+    return false;
+  }
+
+  const fileKey = await generateFileKey();
+  const data = await encryptBlob(upload, fileKey, ENCRYPTION_SEGMENT_SIZE);
+
+  return backend.updateSharedFiles(user, shareId, {
+    type: 'add',
+    file: {
+      id: blobId,
+      name: upload.name,
+      type: upload.type,
+      size: upload.size,
+      lastModified: upload.lastModified,
+      encryption: {
+        algorithm: 'AES-GCM',
+        wrappedKey: await wrapKeyForPublicKey(fileKey, ownerKey),
+        segmentSize: ENCRYPTION_SEGMENT_SIZE,
+        keyWrapping: 'public-key',
+      },
+    },
+    fileKey: await wrapKeyForPublicKey(fileKey, recipientKey),
+  }, data);
+};
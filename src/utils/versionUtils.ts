@@ -0,0 +1,166 @@
+// File version history: re-uploading a file keeps its id and moves the previous content into
+// `FileMetadata.versions`, newest first, up to the user's configured maximum.
+import type { StorageBackend } from './storageBackend';
+import {
+  User,
+  UserStorage,
+  FileMetadata,
+  FileVersion,
+  getUserStorage,
+  getStoredFiles,
+  getContentBlobId,
+  openBlob,
+  findStoredUser,
+  updateStoredUser
+} from './storageUtils';
+import { attachThumbnail, canHaveThumbnail } from './thumbnailUtils';
+import { indexFileContent, removeFromSearchIndex } from './searchUtils';
+import { canExtractText } from './textExtractionUtils';
+
+export const DEFAULT_MAX_VERSIONS = 10;
+export const MAX_VERSION_OPTIONS = [1, 3, 5, 10, 25, 50];
+
+export type UploadConflictResolution = 'replace' | 'keep-both' | 'skip';
+
+// New content for a file, as committed by an upload
+export type FileContent = Omit<FileVersion, 'replacedAt'>;
+
+export const getMaxVersions = (username: string): number => {
+  return findStoredUser(username)?.maxFileVersions ?? DEFAULT_MAX_VERSIONS;
+};
+
+export const setMaxVersions = (username: string, maxVersions: number): boolean => {
+  if (!Number.isInteger(maxVersions) || maxVersions < 1) {
+    return false;
+  }
+
+  return updateStoredUser(username, user => {
+    user.maxFileVersions = maxVersions;
+  });
+};
+
+const toVersion = (file: FileMetadata, replacedAt: number): FileVersion => ({
+  blobId: getContentBlobId(file),
+  type: file.type,
+  size: file.size,
+  lastModified: file.lastModified,
+  replacedAt,
+  encryption: file.encryption,
+});
+
+const applyContent = (file: FileMetadata, content: FileContent): void => {
+  file.blobId = content.blobId;
+  file.type = content.type;
+  file.size = content.size;
+  file.lastModified = content.lastModified;
+  file.encryption = content.encryption;
+};
+
+// Make `content` the file's current version and keep the previous one in its history.
+// Updates usedSpace and returns the versions that fell off the end, whose blobs the caller
+// deletes once the metadata is saved.
+export const addFileVersion = (
+  storage: UserStorage,
+  file: FileMetadata,
+  content: FileContent,
+  maxVersions: number
+): FileVersion[] => {
+  const versions = [toVersion(file, Date.now()), ...(file.versions ?? [])];
+  const evicted = versions.splice(maxVersions);
+
+  applyContent(file, content);
+  file.versions = versions;
+  storage.usedSpace += content.size - evicted.reduce((total, version) => total + version.size, 0);
+
+  return evicted;
+};
+
+const findVersion = (file: FileMetadata | undefined, blobId: string): FileVersion | undefined => {
+  return file?.versions?.find(version => version.blobId === blobId);
+};
+
+export const downloadVersion = async (
+  backend: StorageBackend,
+  user: User,
+  fileId: string,
+  blobId: string
+): Promise<Blob | null> => {
+  const storage = await getUserStorage(backend, user);
+  const version = findVersion(storage.files.find(f => f.id === fileId), blobId);
+
+  if (!version) {
+    return null;
+  }
+
+  const data = await backend.getBlob(user, version.blobId);
+  return data ? openBlob(data, version) : null;
+};
+
+// Swap an older version back in; the content it replaces becomes the newest version
+export const restoreVersion = async (
+  backend: StorageBackend,
+  user: User,
+  fileId: string,
+  blobId: string
+): Promise<boolean> => {
+  const storage = await getUserStorage(backend, user);
+  const file = storage.files.find(f => f.id === fileId);
+  const version = findVersion(file, blobId);
+
+  if (!file || !version) {
+    return false;
+  }
+
+  const previousThumbnail = file.thumbnail;
+  file.versions = [toVersion(file, Date.now()), ...file.versions!.filter(v => v !== version)];
+  applyContent(file, version);
+  delete file.thumbnail;
+  await backend.saveStorage(user, storage);
+
+  // The thumbnail and the search index described the replaced content; rebuild both from the
+  // restored content, as an upload of it would
+  if (previousThumbnail) {
+    await backend.deleteBlob(user, previousThumbnail.blobId).catch(() => undefined);
+  }
+  const source = { id: fileId, blobId: version.blobId, name: file.name, type: version.type, size: version.size };
+  const data = canHaveThumbnail(version.type) || canExtractText(source)
+    ? await backend.getBlob(user, version.blobId)
+    : null;
+  const content = data && await openBlob(data, version);
+
+  if (content && canHaveThumbnail(version.type)) {
+    await attachThumbnail(backend, user, fileId, content, version.type).catch(() => undefined);
+  }
+  if (content && canExtractText(source)) {
+    await indexFileContent(backend, user, source, content).catch(() => undefined);
+  } else {
+    await removeFromSearchIndex(backend, user, [fileId]).catch(() => undefined);
+  }
+
+  return true;
+};
+
+// Apply a lowered limit right away instead of on the next upload
+export const pruneVersions = async (backend: StorageBackend, user: User, maxVersions: number): Promise<number> => {
+  const storage = await getUserStorage(backend, user);
+  const evicted: FileVersion[] = [];
+
+  for (const file of getStoredFiles(storage)) {
+    if (file.versions && file.versions.length > maxVersions) {
+      evicted.push(...file.versions.splice(maxVersions));
+    }
+  }
+
+  if (evicted.length === 0) {
+    return 0;
+  }
+
+  storage.usedSpace -= evicted.reduce((total, version) => total + version.size, 0);
+  await backend.saveStorage(user, storage);
+
+  for (const version of evicted) {
+    await backend.deleteBlob(user, version.blobId);
+  }
+
+  return evicted.length;
+};
@@ -0,0 +1,397 @@
+// Minimal ZIP support for exporting and importing folders.
+// The writer streams: each entry is written to a sink as its data is read, with sizes and CRC in a
+// trailing data descriptor, so an archive never has to fit in memory. Entries are stored
+// uncompressed (most vault content is already compressed). The reader handles stored and deflated
+// entries. Names are UTF-8 and archives are limited to 4GB, since ZIP64 is not supported.
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20;
+const ENCRYPTED_FLAG = 0x0001;
+const DATA_DESCRIPTOR_FLAG = 0x0008;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const DIRECTORY_ATTRIBUTE = 0x10;
+const EXTENDED_TIMESTAMP_TAG = 0x5455;
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const CRC_CHUNK_SIZE = 1024 * 1024;
+
+// Where a ZipWriter sends the archive bytes, in order
+export interface ZipSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+}
+
+export interface ZipWriter {
+  // Add a folder entry, so empty folders survive; `path` has no leading slash, e.g. "Documents/2024"
+  addFolder: (path: string, lastModified: number) => Promise<void>;
+  // Add a file; `path` uses forward slashes and no leading slash, e.g. "Documents/report.pdf"
+  add: (path: string, data: Blob | ReadableStream<Uint8Array>, lastModified: number) => Promise<void>;
+  // Write the central directory; no entries can be added afterwards
+  close: () => Promise<void>;
+}
+
+export interface ZipEntry {
+  path: string; // as stored in the archive; folders end with "/"
+  isFolder: boolean;
+  size: number; // uncompressed
+  lastModified: number;
+  // Extract the entry, checking it against its declared size and CRC
+  open: () => Promise<Blob>;
+}
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+// Running CRC-32: start from 0xffffffff and xor the result with 0xffffffff when done
+const updateCrc = (crc: number, bytes: Uint8Array): number => {
+  const table = getCrcTable();
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+};
+
+export const crc32 = async (data: Blob): Promise<number> => {
+  let crc = 0xffffffff;
+
+  for (let offset = 0; offset < data.size; offset += CRC_CHUNK_SIZE) {
+    crc = updateCrc(crc, new Uint8Array(await data.slice(offset, offset + CRC_CHUNK_SIZE).arrayBuffer()));
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS timestamps have two-second resolution and start in 1980
+export const toDosDateTime = (timestamp: number): { time: number; date: number } => {
+  const date = new Date(Math.max(timestamp, new Date(1980, 0, 1).getTime()));
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+export const fromDosDateTime = (time: number, date: number): number => {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+};
+
+// Extended timestamp field with the exact modification time in UTC seconds
+const createTimestampExtra = (lastModified: number): Uint8Array => {
+  const extra = new DataView(new ArrayBuffer(9));
+  extra.setUint16(0, EXTENDED_TIMESTAMP_TAG, true);
+  extra.setUint16(2, 5, true);
+  extra.setUint8(4, 1); // modification time present
+  extra.setUint32(5, Math.min(Math.max(Math.floor(lastModified / 1000), 0), 0xffffffff), true);
+  return new Uint8Array(extra.buffer);
+};
+
+const readTimestampExtra = (extra: DataView): number | null => {
+  for (let offset = 0; offset + 4 <= extra.byteLength;) {
+    const tag = extra.getUint16(offset, true);
+    const size = extra.getUint16(offset + 2, true);
+    if (tag === EXTENDED_TIMESTAMP_TAG && size >= 5 && offset + 9 <= extra.byteLength && extra.getUint8(offset + 4) & 1) {
+      return extra.getUint32(offset + 5, true) * 1000;
+    }
+    offset += 4 + size;
+  }
+  return null;
+};
+
+interface CentralEntry {
+  name: Uint8Array;
+  extra: Uint8Array;
+  flags: number;
+  crc: number;
+  size: number;
+  time: number;
+  date: number;
+  attributes: number;
+  offset: number;
+}
+
+export const createZipWriter = (sink: ZipSink): ZipWriter => {
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+  let closed = false;
+
+  const write = async (chunk: Uint8Array) => {
+    if (offset + chunk.length > MAX_ZIP_SIZE) {
+      throw new Error('The archive would exceed the 4GB ZIP limit');
+    }
+    await sink.write(chunk);
+    offset += chunk.length;
+  };
+
+  // Write a local header and return the entry's central directory record, to be completed by the caller
+  const startEntry = async (path: string, lastModified: number, flags: number, attributes: number): Promise<CentralEntry> => {
+    if (closed) {
+      throw new Error('The archive has already been closed');
+    }
+    if (entries.length >= MAX_ZIP_ENTRIES) {
+      throw new Error(`An archive can hold at most ${MAX_ZIP_ENTRIES} entries`);
+    }
+
+    const entry: CentralEntry = {
+      name: new TextEncoder().encode(path),
+      extra: createTimestampExtra(lastModified),
+      flags,
+      crc: 0,
+      size: 0,
+      ...toDosDateTime(lastModified),
+      attributes,
+      offset,
+    };
+
+    // CRC and sizes are zero here; files carry them in the data descriptor instead
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    header.setUint16(4, ZIP_VERSION, true);
+    header.setUint16(6, flags, true);
+    header.setUint16(8, METHOD_STORED, true);
+    header.setUint16(10, entry.time, true);
+    header.setUint16(12, entry.date, true);
+    header.setUint16(26, entry.name.length, true);
+    header.setUint16(28, entry.extra.length, true);
+
+    await write(new Uint8Array(header.buffer));
+    await write(entry.name);
+    await write(entry.extra);
+
+    return entry;
+  };
+
+  const addFolder = async (path: string, lastModified: number) => {
+    const entry = await startEntry(path.endsWith('/') ? path : `${path}/`, lastModified, UTF8_FLAG, DIRECTORY_ATTRIBUTE);
+    entries.push(entry);
+  };
+
+  const add = async (path: string, data: Blob | ReadableStream<Uint8Array>, lastModified: number) => {
+    const entry = await startEntry(path, lastModified, UTF8_FLAG | DATA_DESCRIPTOR_FLAG, 0);
+    const reader = (data instanceof Blob ? data.stream() : data).getReader();
+    let crc = 0xffffffff;
+
+    try {
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        crc = updateCrc(crc, chunk.value);
+        entry.size += chunk.value.length;
+        await write(chunk.value);
+      }
+    } catch (error) {
+      await reader.cancel().catch(() => undefined);
+      throw error;
+    }
+    entry.crc = (crc ^ 0xffffffff) >>> 0;
+
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    descriptor.setUint32(4, entry.crc, true);
+    descriptor.setUint32(8, entry.size, true);
+    descriptor.setUint32(12, entry.size, true);
+    await write(new Uint8Array(descriptor.buffer));
+
+    entries.push(entry);
+  };
+
+  const close = async () => {
+    closed = true;
+    const centralStart = offset;
+
+    for (const entry of entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      header.setUint16(4, ZIP_VERSION, true);
+      header.setUint16(6, ZIP_VERSION, true);
+      header.setUint16(8, entry.flags, true);
+      header.setUint16(10, METHOD_STORED, true);
+      header.setUint16(12, entry.time, true);
+      header.setUint16(14, entry.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      header.setUint16(30, entry.extra.length, true);
+      // Comment, disk number and internal attributes stay zero
+      header.setUint32(38, entry.attributes, true);
+      header.setUint32(42, entry.offset, true);
+
+      await write(new Uint8Array(header.buffer));
+      await write(entry.name);
+      await write(entry.extra);
+    }
+
+    const end = new DataView(new ArrayBuffer(END_OF_CENTRAL_DIRECTORY_SIZE));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, offset - centralStart, true);
+    end.setUint32(16, centralStart, true);
+    await write(new Uint8Array(end.buffer));
+  };
+
+  return { addFolder, add, close };
+};
+
+// Collects the archive in memory, for browsers that cannot write to a file as it is produced.
+// Fails once the archive grows past maxSize bytes.
+export const createBlobSink = (maxSize: number): ZipSink & { toBlob: () => Blob } => {
+  const parts: BlobPart[] = [];
+  let size = 0;
+
+  return {
+    write: async (chunk) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        throw new Error('The archive is too large to be built in memory');
+      }
+      parts.push(chunk);
+    },
+    toBlob: () => new Blob(parts, { type: 'application/zip' }),
+  };
+};
+
+// Passes data through until it grows past maxSize, so an entry cannot inflate beyond the size
+// its header declares
+const createSizeLimit = (maxSize: number, path: string): TransformStream<Uint8Array, Uint8Array> => {
+  let size = 0;
+
+  return new TransformStream({
+    transform: (chunk, controller) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        controller.error(new Error(`${path} is larger than its header declares`));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+};
+
+const readView = async (blob: Blob, start: number, end: number): Promise<DataView> => {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = async (archive: Blob): Promise<DataView | null> => {
+  const tailStart = Math.max(0, archive.size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readView(archive, tailStart, archive.size);
+
+  for (let i = tail.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return new DataView(tail.buffer, i, END_OF_CENTRAL_DIRECTORY_SIZE);
+    }
+  }
+  return null;
+};
+
+// List the entries of a ZIP archive. Throws when the file is not a ZIP archive this reader supports.
+export const readZip = async (archive: Blob): Promise<ZipEntry[]> => {
+  const end = await findEndOfCentralDirectory(archive);
+  if (!end) {
+    throw new Error('The file is not a valid ZIP archive');
+  }
+
+  const entryCount = end.getUint16(10, true);
+  const directorySize = end.getUint32(12, true);
+  const directoryOffset = end.getUint32(16, true);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+  if (directoryOffset + directorySize > archive.size) {
+    throw new Error('The ZIP archive is truncated');
+  }
+
+  const directory = await readView(archive, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let offset = 0, index = 0; index < entryCount; index++) {
+    if (offset + 46 > directory.byteLength || directory.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('The ZIP archive is damaged');
+    }
+
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    const time = directory.getUint16(offset + 12, true);
+    const date = directory.getUint16(offset + 14, true);
+    const crc = directory.getUint32(offset + 16, true);
+    const compressedSize = directory.getUint32(offset + 20, true);
+    const size = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const attributes = directory.getUint32(offset + 38, true);
+    const localOffset = directory.getUint32(offset + 42, true);
+
+    const nameStart = directory.byteOffset + offset + 46;
+    const path = decoder.decode(new Uint8Array(directory.buffer, nameStart, nameLength));
+    const extra = new DataView(directory.buffer, nameStart + nameLength, extraLength);
+
+    const open = async (): Promise<Blob> => {
+      if (flags & ENCRYPTED_FLAG) {
+        throw new Error(`${path} is password protected`);
+      }
+
+      const local = await readView(archive, localOffset, localOffset + 30);
+      if (local.byteLength < 30 || local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`${path} is damaged`);
+      }
+
+      const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+      const compressed = archive.slice(dataStart, dataStart + compressedSize);
+      let data: Blob;
+
+      if (method === METHOD_STORED) {
+        data = compressed;
+      } else if (method === METHOD_DEFLATE) {
+        const inflated = compressed.stream()
+          .pipeThrough(new DecompressionStream('deflate-raw'))
+          .pipeThrough(createSizeLimit(size, path));
+        data = await new Response(inflated).blob();
+      } else {
+        throw new Error(`${path} uses an unsupported compression method`);
+      }
+
+      if (data.size !== size || (await crc32(data)) !== crc) {
+        throw new Error(`${path} is damaged`);
+      }
+      return data;
+    };
+
+    entries.push({
+      path,
+      isFolder: path.endsWith('/') || (attributes & DIRECTORY_ATTRIBUTE) !== 0,
+      size,
+      lastModified: readTimestampExtra(extra) ?? fromDosDateTime(time, date),
+      open,
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
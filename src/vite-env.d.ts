@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_STORAGE_BACKEND?: 'local' | 'indexeddb' | 'http';
+  readonly VITE_STORAGE_API_URL?: string;
+}